@@ -12,6 +12,8 @@ export default function AuthLayout() {
       <Stack.Screen name="login" />
       <Stack.Screen name="signup" />
       <Stack.Screen name="forgot-password" />
+      <Stack.Screen name="verify-email" options={{ gestureEnabled: false }} />
+      <Stack.Screen name="reset-password" />
     </Stack>
   );
 }
\ No newline at end of file
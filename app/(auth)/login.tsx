@@ -1,20 +1,21 @@
 import React, { useState } from 'react';
 import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform, TouchableOpacity } from 'react-native';
-import { Text, TextInput, Button, HelperText, IconButton } from 'react-native-paper';
+import { Text, TextInput, Button, HelperText } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { signInWithEmail, isValidEmail } from '@/services/authService';
-import { useAuthStore } from '@/stores/authStore';
+import { signInWithEmail, signInWithGoogle, signInWithApple, isAppleSignInSupported, getPendingLinkEmail, isValidEmail } from '@/services/authService';
+import GoogleSignInButton from '@/components/GoogleSignInButton';
+import AppleSignInButton from '@/components/AppleSignInButton';
+import { isGoogleSignInConfigured } from '@/hooks/useGoogleIdToken';
 
 export default function LoginScreen() {
-  const [email, setEmail] = useState('');
+  // Prefilled when a Google or Apple sign-in is waiting to be linked
+  const [email, setEmail] = useState(() => getPendingLinkEmail() ?? '');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
 
-  const setUser = useAuthStore((state) => state.setUser);
-
   const handleLogin = async () => {
     // Reset error
     setError('');
@@ -33,18 +34,50 @@ export default function LoginScreen() {
     setLoading(true);
 
     try {
-      const userCredential = await signInWithEmail(email, password);
+      // The auth listener in the root layout loads the full profile
+      // (subscription included) into the store, then routes to the dashboard
+      // or the verify-email screen
+      await signInWithEmail(email, password);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The email already has a password account; signing in to it links the
+  // Google or Apple sign-in that was just tried
+  const showPendingLink = () => {
+    const linkEmail = getPendingLinkEmail();
+    if (linkEmail) {
+      setEmail(linkEmail);
+      setPassword('');
+    }
+  };
+
+  const handleGoogleSignIn = async (idToken: string) => {
+    setError('');
+    setLoading(true);
+
+    try {
+      await signInWithGoogle(idToken);
+    } catch (err: any) {
+      showPendingLink();
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      // Update auth store
-      setUser({
-        uid: userCredential.user.uid,
-        email: userCredential.user.email || '',
-        displayName: userCredential.user.displayName || 'User',
-      });
+  const handleAppleSignIn = async () => {
+    setError('');
+    setLoading(true);
 
-      // Navigation will be handled by auth state listener in root layout
-      router.replace('/(tabs)/dashboard');
+    try {
+      // Resolves to null if cancelled
+      await signInWithApple();
     } catch (err: any) {
+      showPendingLink();
       setError(err.message);
     } finally {
       setLoading(false);
@@ -142,28 +175,28 @@ export default function LoginScreen() {
               Sign In
             </Button>
 
-            <View style={styles.dividerContainer}>
-              <View style={styles.dividerLine} />
-              <Text style={styles.dividerText}>or</Text>
-              <View style={styles.dividerLine} />
-            </View>
+            {isGoogleSignInConfigured() || isAppleSignInSupported() ? (
+              <>
+                <View style={styles.dividerContainer}>
+                  <View style={styles.dividerLine} />
+                  <Text style={styles.dividerText}>or</Text>
+                  <View style={styles.dividerLine} />
+                </View>
 
-            <View style={styles.socialContainer}>
-              <TouchableOpacity
-                style={styles.socialButton}
-                onPress={() => {
-                  // TODO: Implement Google OAuth in Phase 2
-                  setError('Google sign-in coming soon');
-                }}
-                disabled={loading}
-              >
-                <IconButton
-                  icon="google"
-                  size={24}
-                  iconColor="#FFFFFF"
-                />
-              </TouchableOpacity>
-            </View>
+                <View style={styles.socialContainer}>
+                  {isGoogleSignInConfigured() ? (
+                    <GoogleSignInButton
+                      onIdToken={handleGoogleSignIn}
+                      onError={setError}
+                      disabled={loading}
+                    />
+                  ) : null}
+                  {isAppleSignInSupported() ? (
+                    <AppleSignInButton onPress={handleAppleSignIn} disabled={loading} />
+                  ) : null}
+                </View>
+              </>
+            ) : null}
 
             <View style={styles.signupContainer}>
               <Text variant="bodyMedium" style={styles.signupText}>
@@ -260,18 +293,9 @@ const styles = StyleSheet.create({
   socialContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
+    gap: 16,
     marginBottom: 32,
   },
-  socialButton: {
-    width: 56,
-    height: 56,
-    borderRadius: 28,
-    backgroundColor: '#1C1C1E',
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: '#38383A',
-  },
   signupContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
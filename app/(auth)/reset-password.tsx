@@ -0,0 +1,446 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  HelperText,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  applyEmailVerificationCode,
+  checkPasswordResetCode,
+  completePasswordReset,
+  isValidPassword,
+  refreshEmailVerified,
+} from '@/services/authService';
+import { useAuthStore } from '@/stores/authStore';
+
+type ResetState =
+  | 'checking'
+  | 'ready'
+  | 'expired'
+  | 'used'
+  | 'missing'
+  | 'failed'
+  | 'done'
+  | 'verified';
+
+// Copy for the states where the link can't be used
+const LINK_PROBLEMS: Partial<
+  Record<ResetState, { title: string; message: string }>
+> = {
+  expired: {
+    title: 'Link Expired',
+    message:
+      'This password reset link has expired. Request a new one and use it within the hour.',
+  },
+  used: {
+    title: 'Link Already Used',
+    message:
+      'This password reset link has already been used or is no longer valid. Request a new one if you still need to reset your password.',
+  },
+  missing: {
+    title: 'Invalid Link',
+    message:
+      'This link is missing its reset code. Open the link from the email again, or request a new one.',
+  },
+};
+
+const VERIFICATION_LINK_PROBLEMS: Partial<
+  Record<ResetState, { title: string; message: string }>
+> = {
+  expired: {
+    title: 'Link Expired',
+    message:
+      'This verification link has expired. Sign in to send a new verification email.',
+  },
+  used: {
+    title: 'Link Already Used',
+    message:
+      'This verification link has already been used or is no longer valid. If your email is still unverified, sign in to send a new one.',
+  },
+  missing: {
+    title: 'Invalid Link',
+    message:
+      'This link is missing its verification code. Open the link from the email again.',
+  },
+};
+
+/**
+ * Opened from Firebase's email links (recoverly://reset-password) with
+ * `mode` and `oobCode`. The project's action URL is shared by every email
+ * template, so verification links land here too.
+ */
+export default function ResetPasswordScreen() {
+  const { mode, oobCode } = useLocalSearchParams<{
+    mode?: string;
+    oobCode?: string;
+  }>();
+  const markEmailVerified = useAuthStore((state) => state.markEmailVerified);
+  const verifyingEmail = mode === 'verifyEmail';
+
+  const [state, setState] = useState<ResetState>('checking');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const checkCode = async () => {
+    if (!oobCode) {
+      setState('missing');
+      return;
+    }
+
+    setState('checking');
+    setError('');
+    try {
+      if (verifyingEmail) {
+        const result = await applyEmailVerificationCode(oobCode);
+        // Only the signed-in user's own verification unlocks the app here
+        if (result === 'verified' && (await refreshEmailVerified())) {
+          markEmailVerified();
+        }
+        setState(result);
+        return;
+      }
+
+      const result = await checkPasswordResetCode(oobCode);
+      if (result.status === 'valid') {
+        setEmail(result.email);
+        setState('ready');
+      } else {
+        setState(result.status);
+      }
+    } catch (err: any) {
+      setError(err.message);
+      setState('failed');
+    }
+  };
+
+  useEffect(() => {
+    checkCode();
+  }, [mode, oobCode]);
+
+  const handleResetPassword = async () => {
+    if (!oobCode) return;
+    setError('');
+
+    if (!password) {
+      setError('Please enter a new password');
+      return;
+    }
+
+    if (!isValidPassword(password)) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await completePasswordReset(oobCode, password);
+      setState('done');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequestNewLink = () => {
+    router.replace('/(auth)/forgot-password');
+  };
+
+  const handleBackToLogin = () => {
+    router.replace('/(auth)/login');
+  };
+
+  const linkProblem = verifyingEmail
+    ? VERIFICATION_LINK_PROBLEMS[state]
+    : LINK_PROBLEMS[state];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.header}>
+            <Text variant="headlineLarge" style={styles.title}>
+              {verifyingEmail ? 'Verify Email' : 'New Password'}
+            </Text>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              {verifyingEmail
+                ? 'Confirming your email address'
+                : state === 'ready'
+                  ? `Choose a new password for ${email}`
+                  : 'Finish resetting your password'}
+            </Text>
+          </View>
+
+          {state === 'checking' ? (
+            <ActivityIndicator
+              size="large"
+              color="#66BB6A"
+              style={styles.spinner}
+            />
+          ) : null}
+
+          {state === 'ready' ? (
+            <>
+              <TextInput
+                label="New Password"
+                value={password}
+                onChangeText={setPassword}
+                secureTextEntry={!showPassword}
+                mode="flat"
+                style={styles.input}
+                error={!!error}
+                disabled={loading}
+                textColor="#FFFFFF"
+                underlineColor="transparent"
+                activeUnderlineColor="transparent"
+                theme={{ colors: { onSurfaceVariant: '#8E8E93' } }}
+                right={
+                  <TextInput.Icon
+                    icon={showPassword ? 'eye-off' : 'eye'}
+                    onPress={() => setShowPassword(!showPassword)}
+                    color="#8E8E93"
+                  />
+                }
+              />
+
+              <TextInput
+                label="Confirm New Password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry={!showPassword}
+                mode="flat"
+                style={styles.input}
+                error={!!error && password !== confirmPassword}
+                disabled={loading}
+                textColor="#FFFFFF"
+                underlineColor="transparent"
+                activeUnderlineColor="transparent"
+                theme={{ colors: { onSurfaceVariant: '#8E8E93' } }}
+              />
+
+              <HelperText type="info" visible style={styles.helperText}>
+                At least 6 characters
+              </HelperText>
+
+              {error ? (
+                <HelperText type="error" visible style={styles.errorText}>
+                  {error}
+                </HelperText>
+              ) : null}
+
+              <Button
+                mode="contained"
+                onPress={handleResetPassword}
+                loading={loading}
+                disabled={loading}
+                style={styles.primaryButton}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+              >
+                Set New Password
+              </Button>
+            </>
+          ) : null}
+
+          {state === 'done' ? (
+            <View style={styles.messageContainer}>
+              <Text variant="headlineSmall" style={styles.successTitle}>
+                Password Updated
+              </Text>
+              <Text variant="bodyMedium" style={styles.message}>
+                You can now sign in with your new password.
+              </Text>
+            </View>
+          ) : null}
+
+          {state === 'verified' ? (
+            <View style={styles.messageContainer}>
+              <Text variant="headlineSmall" style={styles.successTitle}>
+                Email Verified
+              </Text>
+              <Text variant="bodyMedium" style={styles.message}>
+                Your email address is confirmed. You can continue in the app.
+              </Text>
+            </View>
+          ) : null}
+
+          {linkProblem ? (
+            <View style={styles.messageContainer}>
+              <Text variant="headlineSmall" style={styles.problemTitle}>
+                {linkProblem.title}
+              </Text>
+              <Text variant="bodyMedium" style={styles.message}>
+                {linkProblem.message}
+              </Text>
+            </View>
+          ) : null}
+
+          {state === 'failed' ? (
+            <>
+              <HelperText type="error" visible style={styles.errorText}>
+                {error}
+              </HelperText>
+              <Button
+                mode="contained"
+                onPress={checkCode}
+                style={styles.primaryButton}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+              >
+                Try Again
+              </Button>
+            </>
+          ) : null}
+
+          {linkProblem && !verifyingEmail ? (
+            <Button
+              mode="contained"
+              onPress={handleRequestNewLink}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Request a New Link
+            </Button>
+          ) : null}
+
+          <Button
+            mode="text"
+            onPress={handleBackToLogin}
+            disabled={loading}
+            style={styles.backButton}
+            labelStyle={styles.backButtonLabel}
+          >
+            {state === 'done'
+              ? 'Sign In'
+              : state === 'verified'
+                ? 'Continue'
+                : '← Back to Login'}
+          </Button>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 32,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 40,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 12,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#8E8E93',
+    fontSize: 17,
+    lineHeight: 24,
+  },
+  spinner: {
+    marginVertical: 40,
+  },
+  input: {
+    marginBottom: 16,
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    fontSize: 17,
+  },
+  helperText: {
+    marginTop: -8,
+    marginBottom: 8,
+    color: '#8E8E93',
+  },
+  errorText: {
+    marginTop: -8,
+    marginBottom: 8,
+    color: '#FF453A',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    marginBottom: 24,
+    backgroundColor: '#66BB6A',
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  messageContainer: {
+    backgroundColor: '#1C1C1E',
+    padding: 24,
+    borderRadius: 16,
+    marginBottom: 32,
+    borderWidth: 1,
+    borderColor: '#2C2C2E',
+  },
+  successTitle: {
+    color: '#66BB6A',
+    fontWeight: '600',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  problemTitle: {
+    color: '#FF453A',
+    fontWeight: '600',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  message: {
+    color: '#C7C7CC',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  backButton: {
+    alignSelf: 'center',
+    marginTop: 16,
+  },
+  backButtonLabel: {
+    color: '#66BB6A',
+    fontSize: 15,
+  },
+});
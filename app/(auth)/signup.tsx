@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { View, StyleSheet, ScrollView, KeyboardAvoidingView, Platform, TouchableOpacity } from 'react-native';
-import { Text, TextInput, Button, HelperText, IconButton, Checkbox } from 'react-native-paper';
+import { Text, TextInput, Button, HelperText, Checkbox } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
-import { signUpWithEmail, isValidEmail, isValidPassword } from '@/services/authService';
+import { signUpWithEmail, signInWithGoogle, signInWithApple, isAppleSignInSupported, isValidEmail, isValidPassword } from '@/services/authService';
 import { useAuthStore } from '@/stores/authStore';
+import GoogleSignInButton from '@/components/GoogleSignInButton';
+import AppleSignInButton from '@/components/AppleSignInButton';
+import { isGoogleSignInConfigured } from '@/hooks/useGoogleIdToken';
 
 export default function SignUpScreen() {
   const [displayName, setDisplayName] = useState('');
@@ -50,13 +53,39 @@ export default function SignUpScreen() {
     try {
       const userCredential = await signUpWithEmail(email, password, displayName);
 
-      setUser({
-        uid: userCredential.user.uid,
-        email: userCredential.user.email || '',
-        displayName: displayName,
-      });
+      // The auth listener fills the store and routes to verify-email. It can
+      // fire before the display name is saved, so merge the name in.
+      const current = useAuthStore.getState().user;
+      if (current?.uid === userCredential.user.uid) {
+        setUser({ ...current, displayName });
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleGoogleSignIn = async (idToken: string) => {
+    setError('');
+    setLoading(true);
 
-      router.replace('/(tabs)/dashboard');
+    try {
+      await signInWithGoogle(idToken);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAppleSignIn = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      // Resolves to null if cancelled
+      await signInWithApple();
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -172,27 +201,28 @@ export default function SignUpScreen() {
               Create Account
             </Button>
 
-            <View style={styles.dividerContainer}>
-              <View style={styles.dividerLine} />
-              <Text style={styles.dividerText}>or</Text>
-              <View style={styles.dividerLine} />
-            </View>
+            {isGoogleSignInConfigured() || isAppleSignInSupported() ? (
+              <>
+                <View style={styles.dividerContainer}>
+                  <View style={styles.dividerLine} />
+                  <Text style={styles.dividerText}>or</Text>
+                  <View style={styles.dividerLine} />
+                </View>
 
-            <View style={styles.socialContainer}>
-              <TouchableOpacity
-                style={styles.socialButton}
-                onPress={() => {
-                  setError('Google sign-up coming soon');
-                }}
-                disabled={loading}
-              >
-                <IconButton
-                  icon="google"
-                  size={24}
-                  iconColor="#FFFFFF"
-                />
-              </TouchableOpacity>
-            </View>
+                <View style={styles.socialContainer}>
+                  {isGoogleSignInConfigured() ? (
+                    <GoogleSignInButton
+                      onIdToken={handleGoogleSignIn}
+                      onError={setError}
+                      disabled={loading}
+                    />
+                  ) : null}
+                  {isAppleSignInSupported() ? (
+                    <AppleSignInButton onPress={handleAppleSignIn} disabled={loading} />
+                  ) : null}
+                </View>
+              </>
+            ) : null}
 
             <View style={styles.loginContainer}>
               <Text variant="bodyMedium" style={styles.loginText}>
@@ -302,18 +332,9 @@ const styles = StyleSheet.create({
   socialContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
+    gap: 16,
     marginBottom: 32,
   },
-  socialButton: {
-    width: 56,
-    height: 56,
-    borderRadius: 28,
-    backgroundColor: '#1C1C1E',
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderWidth: 1,
-    borderColor: '#38383A',
-  },
   loginContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Button, HelperText } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import {
+  getVerificationEmailWait,
+  refreshEmailVerified,
+  sendVerificationEmail,
+  signOut,
+} from '@/services/authService';
+import { cancelAllReminders } from '@/services/reminderService';
+import { useAuthStore } from '@/stores/authStore';
+
+export default function VerifyEmailScreen() {
+  const user = useAuthStore((state) => state.user);
+  const markEmailVerified = useAuthStore((state) => state.markEmailVerified);
+  const clearUser = useAuthStore((state) => state.signOut);
+
+  const [checking, setChecking] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [resendWait, setResendWait] = useState(() =>
+    getVerificationEmailWait(),
+  );
+
+  // Count down to the next allowed resend
+  useEffect(() => {
+    if (resendWait <= 0) return;
+
+    const timer = setTimeout(
+      () => setResendWait(getVerificationEmailWait()),
+      1000,
+    );
+    return () => clearTimeout(timer);
+  }, [resendWait]);
+
+  const handleCheck = async () => {
+    setError('');
+    setNotice('');
+    setChecking(true);
+
+    try {
+      if (await refreshEmailVerified()) {
+        // The root layout moves on to the dashboard
+        markEmailVerified();
+      } else {
+        setNotice(
+          "We couldn't confirm your email yet. Open the link in the email, then try again.",
+        );
+      }
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    setNotice('');
+    setSending(true);
+
+    try {
+      await sendVerificationEmail();
+      setNotice('Verification email sent.');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSending(false);
+      setResendWait(getVerificationEmailWait());
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await cancelAllReminders();
+      await signOut();
+      clearUser();
+      router.replace('/(auth)/welcome');
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const resendSeconds = Math.ceil(resendWait / 1000);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text variant="headlineLarge" style={styles.title}>
+            Verify Your Email
+          </Text>
+          <Text variant="bodyLarge" style={styles.subtitle}>
+            We've sent a verification link to
+          </Text>
+          <Text variant="bodyLarge" style={styles.emailText}>
+            {user?.email}
+          </Text>
+          <Text variant="bodyMedium" style={styles.instructions}>
+            Open the link to confirm your address, then come back here. If you
+            don't see it, check your spam folder.
+          </Text>
+        </View>
+
+        {error ? (
+          <HelperText type="error" visible style={styles.errorText}>
+            {error}
+          </HelperText>
+        ) : notice ? (
+          <HelperText type="info" visible style={styles.noticeText}>
+            {notice}
+          </HelperText>
+        ) : null}
+
+        <Button
+          mode="contained"
+          onPress={handleCheck}
+          loading={checking}
+          disabled={checking}
+          style={styles.primaryButton}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.buttonLabel}
+        >
+          I've Verified My Email
+        </Button>
+
+        <Button
+          mode="outlined"
+          onPress={handleResend}
+          loading={sending}
+          disabled={sending || resendWait > 0}
+          style={styles.secondaryButton}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.secondaryLabel}
+        >
+          {resendWait > 0 ? `Resend Email (${resendSeconds}s)` : 'Resend Email'}
+        </Button>
+
+        <Button
+          mode="text"
+          onPress={handleSignOut}
+          style={styles.signOutButton}
+          labelStyle={styles.signOutLabel}
+        >
+          Use a different account
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 32,
+    paddingTop: 60,
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 32,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 12,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#8E8E93',
+    fontSize: 17,
+    lineHeight: 24,
+  },
+  emailText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  instructions: {
+    color: '#8E8E93',
+    lineHeight: 22,
+    fontSize: 15,
+  },
+  errorText: {
+    marginBottom: 8,
+    color: '#FF453A',
+  },
+  noticeText: {
+    marginBottom: 8,
+    color: '#8E8E93',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    marginBottom: 16,
+    backgroundColor: '#66BB6A',
+  },
+  secondaryButton: {
+    borderRadius: 14,
+    borderColor: '#38383A',
+    marginBottom: 16,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  secondaryLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  signOutButton: {
+    alignSelf: 'center',
+    marginTop: 8,
+  },
+  signOutLabel: {
+    color: '#66BB6A',
+    fontSize: 15,
+  },
+});
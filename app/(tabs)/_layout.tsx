@@ -40,6 +40,13 @@ export default function TabsLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="condition/[id]"
+        options={{
+          // Opened from a dashboard card, not from the tab bar
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
@@ -0,0 +1,560 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import {
+  Text,
+  Button,
+  ActivityIndicator,
+  HelperText,
+  Modal,
+  Portal,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { useConditionStore } from '@/stores/conditionStore';
+import { updateConditionStatus } from '@/services/conditionService';
+import {
+  getPlan,
+  getPlanDay,
+  isCheckInDue,
+  PlanExercise,
+  RehabPlan,
+} from '@/services/planService';
+import { getSessionLogsForPlan, SessionLog } from '@/services/sessionService';
+import { runScheduledAdaptation } from '@/services/adaptationService';
+import { getAdherence, getNextSessionDue } from '@/utils/recoveryAnalytics';
+import PainChart from '@/components/PainChart';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * "Today", "Tomorrow" or a short date for the next session
+ */
+const formatDueDate = (due: Date, now: Date): string => {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  const days = Math.round((due.getTime() - today.getTime()) / MS_PER_DAY);
+
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return due.toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+export default function ConditionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const condition = useConditionStore((state) =>
+    state.conditions.find((item) => item.id === id),
+  );
+
+  const [plan, setPlan] = useState<RehabPlan | null>(null);
+  const [logs, setLogs] = useState<SessionLog[]>([]);
+  const [loadingPlan, setLoadingPlan] = useState(true);
+  const [selectedExercise, setSelectedExercise] = useState<PlanExercise | null>(
+    null,
+  );
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [resuming, setResuming] = useState(false);
+  const [resumeError, setResumeError] = useState('');
+
+  // Reload on focus so a session just logged shows up on return
+  useFocusEffect(
+    useCallback(() => {
+      const planId = condition?.activePlanId;
+      const userId = condition?.userId;
+      if (!planId || !userId) {
+        setLoadingPlan(false);
+        return;
+      }
+
+      let cancelled = false;
+      // Offline the plan falls back to its cached copy but the logs query
+      // fails, so show the plan with an empty history instead of failing
+      const loadLogs = getSessionLogsForPlan(userId, planId).catch((err) => {
+        console.error('Load session history error:', err);
+        return null;
+      });
+
+      Promise.all([getPlan(planId), loadLogs])
+        .then(async ([loadedPlan, loadedLogs]) => {
+          // The weekly adaptation runs here, so the user sees the change
+          // along with the plan it applies to. It needs the real history,
+          // so it waits until the logs can be read.
+          let currentPlan = loadedPlan;
+          if (loadedPlan && loadedLogs) {
+            try {
+              currentPlan =
+                (await runScheduledAdaptation(loadedPlan, loadedLogs)) ??
+                loadedPlan;
+            } catch (err) {
+              console.error('Scheduled adaptation error:', err);
+            }
+          }
+
+          if (cancelled) return;
+          setPlan(currentPlan);
+          setLogs(loadedLogs ?? []);
+        })
+        .catch((err) => console.error('Load plan error:', err))
+        .finally(() => {
+          if (!cancelled) setLoadingPlan(false);
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    }, [condition?.activePlanId, condition?.userId]),
+  );
+
+  if (loadingPlan) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#66BB6A" />
+      </View>
+    );
+  }
+
+  if (!condition) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text variant="titleMedium" style={styles.title}>
+            We couldn't find this condition.
+          </Text>
+          <Button mode="text" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const handleResume = async () => {
+    setResumeError('');
+    setResuming(true);
+    try {
+      // The conditions subscription flips this screen back to active
+      await updateConditionStatus(condition.id, 'active');
+    } catch (err: any) {
+      setResumeError(err.message);
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  const now = new Date();
+  const planDay =
+    plan?.startDate && getPlanDay(plan.startDate, plan.targetDurationWeeks);
+  const adherence =
+    plan?.startDate && getAdherence(logs, plan.frequency, plan.startDate, now);
+  const nextDue =
+    plan?.startDate && getNextSessionDue(logs, plan.frequency, plan.startDate);
+  const history = [...logs].reverse();
+  const checkInDue = plan ? isCheckInDue(plan, now) : false;
+  const latestAdaptation = plan?.adaptationHistory.at(-1);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Button
+          mode="text"
+          icon="chevron-left"
+          onPress={() => router.replace('/(tabs)/dashboard')}
+          style={styles.backButton}
+          labelStyle={styles.backLabel}
+        >
+          Back to Dashboard
+        </Button>
+
+        <Text variant="headlineSmall" style={styles.title}>
+          {condition.bodyRegion.replace(/_/g, ' ').toUpperCase()}
+        </Text>
+        {planDay ? (
+          <Text variant="bodyLarge" style={styles.subtitle}>
+            Day {planDay.day} of {planDay.totalDays}
+          </Text>
+        ) : null}
+
+        <View style={styles.card}>
+          <Text variant="titleMedium" style={styles.cardTitle}>
+            📊 Pain Trend
+          </Text>
+          <PainChart logs={logs} />
+        </View>
+
+        <Text variant="bodyLarge" style={styles.stat}>
+          ⭐ {logs.length} {logs.length === 1 ? 'session' : 'sessions'}{' '}
+          completed
+          {adherence ? ` (${adherence.expected} planned so far)` : ''}
+        </Text>
+        {nextDue ? (
+          <Text variant="bodyLarge" style={styles.stat}>
+            Next session due: {formatDueDate(nextDue, now)}
+          </Text>
+        ) : null}
+
+        {condition.status === 'paused' ? (
+          <View style={styles.pausedCard}>
+            <Text variant="titleMedium" style={styles.cardTitle}>
+              ⏸ Protocol paused
+            </Text>
+            <Text variant="bodyMedium" style={styles.meta}>
+              You paused this protocol because your pain got worse. Resume once
+              it has settled, or once a healthcare provider has cleared you to
+              exercise.
+            </Text>
+            {resumeError ? (
+              <HelperText type="error" visible style={styles.errorText}>
+                {resumeError}
+              </HelperText>
+            ) : null}
+            <Button
+              mode="contained"
+              onPress={handleResume}
+              loading={resuming}
+              disabled={resuming}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Resume Protocol
+            </Button>
+          </View>
+        ) : plan && checkInDue ? (
+          // Sessions stay locked until the user has checked in
+          <View style={styles.checkInCard}>
+            <Text variant="titleMedium" style={styles.cardTitle}>
+              Time for your check-in
+            </Text>
+            <Text variant="bodyMedium" style={styles.meta}>
+              Tell us how the last two weeks went so we can adjust your plan.
+            </Text>
+            <Button
+              mode="contained"
+              onPress={() => router.push(`/check-in/${plan.id}`)}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Start Check-In
+            </Button>
+          </View>
+        ) : plan ? (
+          <Button
+            mode="contained"
+            onPress={() => router.push(`/session/${plan.id}`)}
+            style={styles.primaryButton}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.buttonLabel}
+          >
+            Start Today's Session
+          </Button>
+        ) : null}
+
+        {plan ? (
+          <>
+            <View style={styles.divider} />
+
+            {latestAdaptation?.changes?.length ? (
+              <View style={styles.card}>
+                <Text variant="titleMedium" style={styles.cardTitle}>
+                  🔄 Plan Updated
+                </Text>
+                <Text variant="bodyMedium" style={styles.body}>
+                  {latestAdaptation.reason}
+                </Text>
+                {latestAdaptation.changes.map((change) => (
+                  <Text
+                    key={change.exerciseId}
+                    variant="bodySmall"
+                    style={styles.meta}
+                  >
+                    •{' '}
+                    {change.field === 'exercise'
+                      ? `${change.from} → ${change.to}.`
+                      : `${change.exerciseName}: ${change.field} ${change.from} → ${change.to}.`}{' '}
+                    {change.reason}
+                  </Text>
+                ))}
+              </View>
+            ) : null}
+
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              📋 Your Protocol
+            </Text>
+            <View style={styles.card}>
+              <Text variant="titleMedium" style={styles.cardTitle}>
+                {plan.protocolName}
+              </Text>
+              <Text variant="bodyMedium" style={styles.body}>
+                {plan.description}
+              </Text>
+              <Text variant="bodyMedium" style={styles.meta}>
+                {plan.frequency}, {plan.targetDurationWeeks} weeks
+              </Text>
+              {plan.progressionNotes ? (
+                <Text variant="bodySmall" style={styles.meta}>
+                  {plan.progressionNotes}
+                </Text>
+              ) : null}
+            </View>
+
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              🎯 Exercises ({plan.exercises.length})
+            </Text>
+            {plan.exercises.map((exercise) => (
+              <TouchableOpacity
+                key={exercise.id}
+                style={styles.row}
+                onPress={() => setSelectedExercise(exercise)}
+              >
+                <Text variant="bodyLarge" style={styles.rowTitle}>
+                  {exercise.name}
+                </Text>
+                <Text variant="bodyMedium" style={styles.rowMeta}>
+                  {exercise.sets} × {exercise.reps} ›
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        ) : null}
+
+        <Text variant="titleMedium" style={styles.sectionTitle}>
+          📅 Session History
+        </Text>
+        {history.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.meta}>
+            No sessions yet.
+          </Text>
+        ) : (
+          history.map((log) => {
+            const expanded = expandedLogId === log.id;
+            return (
+              <TouchableOpacity
+                key={log.id}
+                style={styles.historyRow}
+                onPress={() => setExpandedLogId(expanded ? null : log.id)}
+              >
+                <View style={styles.historyHeader}>
+                  <Text variant="bodyLarge" style={styles.rowTitle}>
+                    Session {log.sessionNumber}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.rowMeta}>
+                    {log.completedAt.toLocaleDateString()}{' '}
+                    {expanded ? '▾' : '▸'}
+                  </Text>
+                </View>
+                {expanded && (
+                  <View style={styles.historyDetail}>
+                    <Text variant="bodyMedium" style={styles.body}>
+                      Pain before: {log.prePainScore} · after:{' '}
+                      {log.postPainScore}
+                    </Text>
+                    <Text variant="bodyMedium" style={styles.meta}>
+                      {log.exercisesCompleted.length} exercises completed
+                    </Text>
+                    {log.notes ? (
+                      <Text variant="bodyMedium" style={styles.notes}>
+                        “{log.notes}”
+                      </Text>
+                    ) : null}
+                  </View>
+                )}
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      <Portal>
+        <Modal
+          visible={selectedExercise !== null}
+          onDismiss={() => setSelectedExercise(null)}
+          contentContainerStyle={styles.sheet}
+        >
+          {selectedExercise && (
+            <View>
+              <Text variant="headlineSmall" style={styles.title}>
+                {selectedExercise.name.toUpperCase()}
+              </Text>
+              <Text variant="titleMedium" style={styles.dosage}>
+                {selectedExercise.sets} sets × {selectedExercise.reps}
+              </Text>
+              <Text variant="bodyLarge" style={styles.body}>
+                {selectedExercise.description}
+              </Text>
+              {selectedExercise.notes ? (
+                <Text variant="bodyMedium" style={styles.notes}>
+                  {selectedExercise.notes}
+                </Text>
+              ) : null}
+              <Button
+                mode="text"
+                onPress={() => setSelectedExercise(null)}
+                labelStyle={styles.closeLabel}
+              >
+                Close
+              </Button>
+            </View>
+          )}
+        </Modal>
+      </Portal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#000000',
+  },
+  scrollContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    marginLeft: -12,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  backLabel: {
+    color: '#8E8E93',
+    fontSize: 15,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 4,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#8E8E93',
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  stat: {
+    color: '#FFFFFF',
+    marginBottom: 6,
+  },
+  checkInCard: {
+    backgroundColor: '#2C3E2F',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 16,
+  },
+  pausedCard: {
+    backgroundColor: '#3D2C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 16,
+  },
+  errorText: {
+    color: '#FF453A',
+    marginTop: 8,
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginTop: 16,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#1C1C1E',
+    marginVertical: 32,
+  },
+  sectionTitle: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  body: {
+    color: '#FFFFFF',
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  meta: {
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  notes: {
+    color: '#C7C7CC',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  rowTitle: {
+    color: '#FFFFFF',
+    flexShrink: 1,
+  },
+  rowMeta: {
+    color: '#8E8E93',
+    marginLeft: 12,
+  },
+  historyRow: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  historyDetail: {
+    marginTop: 12,
+  },
+  sheet: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 20,
+    marginHorizontal: 16,
+    padding: 24,
+  },
+  dosage: {
+    color: '#66BB6A',
+    fontWeight: '600',
+    marginVertical: 12,
+  },
+  closeLabel: {
+    color: '#8E8E93',
+    fontSize: 15,
+  },
+});
@@ -1,11 +1,34 @@
 import React from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
-import { Text, Button } from 'react-native-paper';
+import { Text, Button, ActivityIndicator } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
 import { useAuthStore } from '@/stores/authStore';
+import { useConditionStore } from '@/stores/conditionStore';
+import PendingSyncNotice from '@/components/PendingSyncNotice';
+import ConditionCard from '@/components/ConditionCard';
 
 export default function DashboardScreen() {
   const user = useAuthStore((state) => state.user);
+  const conditions = useConditionStore((state) => state.conditions);
+  const loading = useConditionStore((state) => state.loading);
+  const error = useConditionStore((state) => state.error);
+  const subscribeToConditions = useConditionStore((state) => state.subscribe);
+
+  // Only claim there's nothing here once the conditions have actually loaded
+  const loaded = !loading && !error;
+
+  const activeConditions = conditions.filter(
+    (condition) => condition.status === 'active',
+  );
+  // Paused at a check-in; kept in view so they can be resumed
+  const pausedConditions = conditions.filter(
+    (condition) => condition.status === 'paused',
+  );
+
+  const handleRetry = () => {
+    if (user) subscribeToConditions(user.uid);
+  };
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -19,30 +42,95 @@ export default function DashboardScreen() {
           </Text>
         </View>
 
-        <View style={styles.emptyState}>
-          <View style={styles.emptyIconContainer}>
-            <Text style={styles.emptyIcon}>💪</Text>
+        <PendingSyncNotice />
+
+        {loading ? (
+          <View style={styles.loadingState}>
+            <ActivityIndicator size="large" color="#66BB6A" />
           </View>
-          <Text variant="titleLarge" style={styles.emptyTitle}>
-            No Active Protocols
-          </Text>
-          <Text variant="bodyMedium" style={styles.emptyDescription}>
-            Describe your pain or movement issue to get started with a personalized recovery plan.
-          </Text>
+        ) : null}
 
-          <Button
-            mode="contained"
-            onPress={() => {
-              // TODO: Navigate to intake flow in Phase 2
-              console.log('Start intake flow');
-            }}
-            style={styles.startButton}
-            contentStyle={styles.buttonContent}
-            labelStyle={styles.buttonLabel}
-          >
-            Start New Protocol
-          </Button>
-        </View>
+        {!loading && error ? (
+          <View style={styles.emptyState}>
+            <Text variant="titleLarge" style={styles.emptyTitle}>
+              Couldn't Load Your Protocols
+            </Text>
+            <Text variant="bodyMedium" style={styles.emptyDescription}>
+              {error}
+            </Text>
+
+            <Button
+              mode="contained"
+              onPress={handleRetry}
+              style={styles.startButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Try Again
+            </Button>
+          </View>
+        ) : null}
+
+        {!loaded ? null : activeConditions.length > 0 ? (
+          <View>
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              ACTIVE CONDITIONS
+            </Text>
+            {activeConditions.map((condition) => (
+              <ConditionCard
+                key={condition.id}
+                condition={condition}
+                onPress={() => router.push(`/condition/${condition.id}`)}
+              />
+            ))}
+
+            <Button
+              mode="text"
+              icon="plus"
+              onPress={() => router.push('/intake')}
+              labelStyle={styles.addLabel}
+            >
+              Add New Condition
+            </Button>
+          </View>
+        ) : (
+          <View style={styles.emptyState}>
+            <View style={styles.emptyIconContainer}>
+              <Text style={styles.emptyIcon}>💪</Text>
+            </View>
+            <Text variant="titleLarge" style={styles.emptyTitle}>
+              No Active Protocols
+            </Text>
+            <Text variant="bodyMedium" style={styles.emptyDescription}>
+              Describe your pain or movement issue to get started with a personalized recovery plan.
+            </Text>
+
+            <Button
+              mode="contained"
+              onPress={() => router.push('/intake')}
+              style={styles.startButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Start New Protocol
+            </Button>
+          </View>
+        )}
+
+        {loaded && pausedConditions.length > 0 ? (
+          <View style={styles.pausedSection}>
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              PAUSED
+            </Text>
+            {pausedConditions.map((condition) => (
+              <ConditionCard
+                key={condition.id}
+                condition={condition}
+                onPress={() => router.push(`/condition/${condition.id}`)}
+              />
+            ))}
+          </View>
+        ) : null}
       </ScrollView>
     </SafeAreaView>
   );
@@ -72,6 +160,26 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     fontSize: 17,
   },
+  sectionTitle: {
+    color: '#8E8E93',
+    marginBottom: 12,
+    marginLeft: 4,
+    letterSpacing: 0.5,
+  },
+  pausedSection: {
+    marginTop: 32,
+  },
+  addLabel: {
+    color: '#66BB6A',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  loadingState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 60,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -1,15 +1,72 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
-import { Text, Button, Divider } from 'react-native-paper';
+import { Text, Button, Divider, SegmentedButtons } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 import { useAuthStore } from '@/stores/authStore';
-import { signOut } from '@/services/authService';
+import { useConditionStore } from '@/stores/conditionStore';
+import { signOut, isPrivateRelayEmail } from '@/services/authService';
+import { ExportFormat, shareExport } from '@/services/exportService';
+import {
+  cancelAllReminders,
+  getReminderTime,
+  requestReminderPermission,
+  setReminderTime,
+  syncReminders,
+} from '@/services/reminderService';
+import { getEntitlement } from '@/utils/entitlements';
+import { ReminderTime } from '@/utils/reminderSchedule';
+
+const REMINDER_TIME_OPTIONS: Record<string, ReminderTime> = {
+  morning: { hour: 8, minute: 0 },
+  midday: { hour: 12, minute: 0 },
+  evening: { hour: 18, minute: 0 },
+};
+
+const toReminderOption = (time: ReminderTime): string =>
+  Object.keys(REMINDER_TIME_OPTIONS).find(
+    (option) => REMINDER_TIME_OPTIONS[option].hour === time.hour
+  ) ?? 'evening';
 
 export default function ProfileScreen() {
   const user = useAuthStore((state) => state.user);
   const clearUser = useAuthStore((state) => state.signOut);
+  const conditions = useConditionStore((state) => state.conditions);
   const [loading, setLoading] = useState(false);
+  const [reminderOption, setReminderOption] = useState('evening');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const entitlement = getEntitlement(user);
+
+  useEffect(() => {
+    getReminderTime().then((time) => setReminderOption(toReminderOption(time)));
+  }, []);
+
+  const handleReminderChange = async (option: string) => {
+    setReminderOption(option);
+    try {
+      await setReminderTime(REMINDER_TIME_OPTIONS[option]);
+      await requestReminderPermission();
+      if (user) {
+        await syncReminders(user.uid, conditions);
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user || exporting) return;
+
+    setExporting(format);
+    try {
+      await shareExport(format, user);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setExporting(null);
+    }
+  };
 
   const handleSignOut = () => {
     Alert.alert('Sign Out', 'Are you sure you want to sign out?', [
@@ -23,6 +80,8 @@ export default function ProfileScreen() {
         onPress: async () => {
           setLoading(true);
           try {
+            // Reminders are per device, so they'd keep firing for the next user
+            await cancelAllReminders();
             await signOut();
             clearUser();
             router.replace('/(auth)/welcome');
@@ -52,18 +111,50 @@ export default function ProfileScreen() {
           <Text variant="bodyMedium" style={styles.email}>
             {user?.email}
           </Text>
+          {user && isPrivateRelayEmail(user.email) && (
+            <Text variant="bodySmall" style={styles.relayNote}>
+              Private relay address from Sign in with Apple
+            </Text>
+          )}
 
           <View style={[
             styles.subscriptionBadge,
-            user?.subscriptionStatus === 'active' && styles.subscriptionBadgeActive
+            entitlement.hasProtocolAccess && styles.subscriptionBadgeActive
           ]}>
             <Text variant="labelSmall" style={[
               styles.subscriptionText,
-              user?.subscriptionStatus === 'active' && styles.subscriptionTextActive
+              entitlement.hasProtocolAccess && styles.subscriptionTextActive
             ]}>
-              {user?.subscriptionStatus === 'active' ? 'PREMIUM' : 'FREE PLAN'}
+              {entitlement.hasProtocolAccess
+                ? 'PREMIUM'
+                : entitlement.access === 'expired'
+                  ? 'EXPIRED'
+                  : 'FREE PLAN'}
             </Text>
           </View>
+          {entitlement.accessEndsAt && (
+            <Text variant="bodySmall" style={styles.accessEnds}>
+              Access until {entitlement.accessEndsAt.toLocaleDateString()}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text variant="labelLarge" style={styles.sectionTitle}>
+            SESSION REMINDERS
+          </Text>
+          <SegmentedButtons
+            value={reminderOption}
+            onValueChange={handleReminderChange}
+            buttons={[
+              { value: 'morning', label: 'Morning' },
+              { value: 'midday', label: 'Midday' },
+              { value: 'evening', label: 'Evening' },
+            ]}
+          />
+          <Text variant="bodySmall" style={styles.reminderHint}>
+            We'll remind you on the days a session is due.
+          </Text>
         </View>
 
         <View style={styles.section}>
@@ -73,10 +164,7 @@ export default function ProfileScreen() {
 
           <TouchableOpacity
             style={styles.menuItem}
-            onPress={() => {
-              // TODO: Navigate to account settings
-              console.log('Account settings');
-            }}
+            onPress={() => router.push('/account-settings')}
           >
             <Text variant="bodyLarge" style={styles.menuItemText}>
               Account Settings
@@ -115,6 +203,55 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
 
+        <View style={styles.section}>
+          <Text variant="labelLarge" style={styles.sectionTitle}>
+            YOUR DATA
+          </Text>
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => handleExport('pdf')}
+            disabled={exporting !== null}
+          >
+            <Text variant="bodyLarge" style={styles.menuItemText}>
+              Recovery Summary (PDF)
+            </Text>
+            <Text style={styles.menuItemChevron}>
+              {exporting === 'pdf' ? '…' : '›'}
+            </Text>
+          </TouchableOpacity>
+
+          <Divider style={styles.menuDivider} />
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => handleExport('csv')}
+            disabled={exporting !== null}
+          >
+            <Text variant="bodyLarge" style={styles.menuItemText}>
+              Session Log (CSV)
+            </Text>
+            <Text style={styles.menuItemChevron}>
+              {exporting === 'csv' ? '…' : '›'}
+            </Text>
+          </TouchableOpacity>
+
+          <Divider style={styles.menuDivider} />
+
+          <TouchableOpacity
+            style={styles.menuItem}
+            onPress={() => handleExport('json')}
+            disabled={exporting !== null}
+          >
+            <Text variant="bodyLarge" style={styles.menuItemText}>
+              All Data (JSON)
+            </Text>
+            <Text style={styles.menuItemChevron}>
+              {exporting === 'json' ? '…' : '›'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text variant="labelLarge" style={styles.sectionTitle}>
             LEGAL
@@ -205,6 +342,11 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     marginBottom: 16,
   },
+  relayNote: {
+    color: '#8E8E93',
+    marginTop: -12,
+    marginBottom: 16,
+  },
   subscriptionBadge: {
     backgroundColor: '#1C1C1E',
     paddingHorizontal: 16,
@@ -226,6 +368,10 @@ const styles = StyleSheet.create({
   subscriptionTextActive: {
     color: '#66BB6A',
   },
+  accessEnds: {
+    color: '#8E8E93',
+    marginTop: 8,
+  },
   section: {
     marginBottom: 32,
   },
@@ -235,6 +381,11 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     letterSpacing: 0.5,
   },
+  reminderHint: {
+    color: '#8E8E93',
+    marginTop: 8,
+    marginLeft: 4,
+  },
   menuItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,14 +1,18 @@
 import { useEffect, useState } from 'react';
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { PaperProvider, MD3LightTheme, MD3DarkTheme, ActivityIndicator } from 'react-native-paper';
-import { useColorScheme, View } from 'react-native';
+import { useColorScheme, View, AppState } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '@/config/firebase';
 import { useAuthStore } from '@/stores/authStore';
-import { getUserProfile } from '@/services/authService';
+import { useConditionStore } from '@/stores/conditionStore';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { getUserProfile, syncProfileEmail, requiresEmailVerification, refreshEmailVerified } from '@/services/authService';
+import { syncReminders } from '@/services/reminderService';
+import { getEntitlement } from '@/utils/entitlements';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -63,6 +67,9 @@ const darkTheme = {
   dark: true,
 };
 
+// Routes that need an active subscription (or one still in its grace period)
+const PROTOCOL_ROUTES = ['session', 'condition', 'check-in'];
+
 function useProtectedRoute(user: any, initializing: boolean) {
   const segments = useSegments();
   const router = useRouter();
@@ -72,13 +79,29 @@ function useProtectedRoute(user: any, initializing: boolean) {
     if (initializing) return;
 
     const inAuthGroup = segments[0] === '(auth)';
+    const authScreen = inAuthGroup ? (segments as string[])[1] : undefined;
+    const onVerifyEmail = authScreen === 'verify-email';
+    const inProtocolRoute = segments.some((segment) =>
+      PROTOCOL_ROUTES.includes(segment)
+    );
 
-    if (!user && !inAuthGroup) {
+    // Reset links work whether or not someone is signed in on this device
+    if (authScreen === 'reset-password') return;
+
+    if (!user && (!inAuthGroup || onVerifyEmail)) {
       // Redirect to welcome if not authenticated
       router.replace('/(auth)/welcome');
+    } else if (user?.needsEmailVerification) {
+      // Password accounts confirm their email before anything else
+      if (!onVerifyEmail) {
+        router.replace('/(auth)/verify-email');
+      }
     } else if (user && inAuthGroup) {
       // Redirect to dashboard if authenticated
       router.replace('/(tabs)/dashboard');
+    } else if (user && inProtocolRoute && !getEntitlement(user).hasProtocolAccess) {
+      // Free or expired users see the paywall instead of protocol screens
+      router.replace('/paywall');
     }
   }, [user, segments, initializing]);
 }
@@ -91,6 +114,13 @@ export default function RootLayout() {
   const user = useAuthStore((state) => state.user);
   const setUser = useAuthStore((state) => state.setUser);
   const setLoading = useAuthStore((state) => state.setLoading);
+  const markEmailVerified = useAuthStore((state) => state.markEmailVerified);
+  const subscribeToConditions = useConditionStore((state) => state.subscribe);
+  const unsubscribeFromConditions = useConditionStore((state) => state.unsubscribe);
+  const conditions = useConditionStore((state) => state.conditions);
+  const conditionsLoading = useConditionStore((state) => state.loading);
+  const startOutbox = useOutboxStore((state) => state.start);
+  const stopOutbox = useOutboxStore((state) => state.stop);
 
   useProtectedRoute(user, initializing);
 
@@ -107,10 +137,24 @@ export default function RootLayout() {
           displayName: firebaseUser.displayName || profile?.displayName || 'User',
           subscriptionStatus: profile?.subscriptionStatus || 'free',
           subscriptionTier: profile?.subscriptionTier || null,
+          subscriptionEndDate: profile?.subscriptionEndDate || null,
+          needsEmailVerification: requiresEmailVerification(firebaseUser),
         });
+
+        // A verified email change only reaches Firebase Auth
+        if (profile && firebaseUser.email && profile.email !== firebaseUser.email) {
+          syncProfileEmail(firebaseUser.uid, firebaseUser.email);
+        }
+
+        // Keep the user's conditions live for the dashboard
+        subscribeToConditions(firebaseUser.uid);
+        // Replay anything logged offline, now and whenever we reconnect
+        startOutbox(firebaseUser.uid);
       } else {
         // User is signed out
         setUser(null);
+        unsubscribeFromConditions();
+        stopOutbox();
       }
 
       setLoading(false);
@@ -120,9 +164,34 @@ export default function RootLayout() {
       }
     });
 
-    return unsubscribe;
+    return () => {
+      unsubscribe();
+      unsubscribeFromConditions();
+      stopOutbox();
+    };
   }, []);
 
+  // Verification links open in the browser, so check again whenever the app
+  // comes back to the foreground
+  const needsEmailVerification = !!user?.needsEmailVerification;
+  useEffect(() => {
+    if (!needsEmailVerification) return;
+
+    const subscription = AppState.addEventListener('change', async (state) => {
+      if (state === 'active' && (await refreshEmailVerified())) {
+        markEmailVerified();
+      }
+    });
+    return () => subscription.remove();
+  }, [needsEmailVerification]);
+
+  // Reminders follow the conditions: new plans get them, paused or resolved
+  // conditions lose them
+  useEffect(() => {
+    if (!user || conditionsLoading) return;
+    syncReminders(user.uid, conditions);
+  }, [user?.uid, conditions, conditionsLoading]);
+
   // Show loading screen while checking auth state
   if (initializing) {
     return (
@@ -156,6 +225,15 @@ export default function RootLayout() {
         >
           <Stack.Screen name="(auth)" options={{ headerShown: false }} />
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="intake" options={{ title: 'New Protocol' }} />
+          <Stack.Screen
+            name="red-flag-warning"
+            options={{ headerShown: false, gestureEnabled: false }}
+          />
+          <Stack.Screen name="paywall" options={{ title: '' }} />
+          <Stack.Screen name="account-settings" options={{ title: 'Account Settings' }} />
+          <Stack.Screen name="session/[planId]" options={{ title: "Today's Session" }} />
+          <Stack.Screen name="check-in/[planId]" options={{ title: '2-Week Check-In' }} />
         </Stack>
       </PaperProvider>
     </SafeAreaProvider>
@@ -0,0 +1,571 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { Text, TextInput, Button, HelperText } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  changeEmail,
+  changePassword,
+  deleteAccount,
+  hasAppleSignIn,
+  hasGoogleSignIn,
+  hasPasswordSignIn,
+  isAppleSignInSupported,
+  isValidEmail,
+  isValidPassword,
+  linkGoogleAccount,
+  reauthenticateWithApple,
+  reauthenticateWithGoogle,
+  updateDisplayName,
+} from '@/services/authService';
+import { cancelAllReminders } from '@/services/reminderService';
+import {
+  isGoogleSignInConfigured,
+  useGoogleIdToken,
+} from '@/hooks/useGoogleIdToken';
+
+interface FormStatus {
+  loading: boolean;
+  error: string;
+  success: string;
+}
+
+const IDLE: FormStatus = { loading: false, error: '', success: '' };
+
+// Shared look for every field, matching the auth screens
+const inputProps = {
+  mode: 'flat' as const,
+  textColor: '#FFFFFF',
+  underlineColor: 'transparent',
+  activeUnderlineColor: 'transparent',
+  theme: { colors: { onSurfaceVariant: '#8E8E93' } },
+};
+
+const renderStatus = (status: FormStatus) =>
+  status.error ? (
+    <HelperText type="error" visible style={styles.errorText}>
+      {status.error}
+    </HelperText>
+  ) : status.success ? (
+    <HelperText type="info" visible style={styles.successText}>
+      {status.success}
+    </HelperText>
+  ) : null;
+
+// Confirms the account again before deleting it; false means the user backed out
+type Reauthenticate = () => Promise<boolean>;
+
+interface DeleteAccountButtonProps {
+  onPress: () => void;
+  loading: boolean;
+  disabled?: boolean;
+}
+
+function DeleteAccountButton({
+  onPress,
+  loading,
+  disabled,
+}: DeleteAccountButtonProps) {
+  return (
+    <Button
+      mode="outlined"
+      onPress={onPress}
+      loading={loading}
+      disabled={loading || disabled}
+      style={styles.deleteButton}
+      contentStyle={styles.buttonContent}
+      labelStyle={styles.deleteLabel}
+    >
+      Delete Account
+    </Button>
+  );
+}
+
+/**
+ * Delete button for Google accounts, which confirm with a fresh Google
+ * sign-in. Separate so the OAuth hook only mounts when a client id is
+ * configured.
+ */
+function GoogleDeleteAccountButton({
+  onDelete,
+  loading,
+}: {
+  onDelete: (reauthenticate: Reauthenticate) => void;
+  loading: boolean;
+}) {
+  const { ready, getIdToken } = useGoogleIdToken();
+
+  const reauthenticate = async () => {
+    const idToken = await getIdToken();
+    if (!idToken) return false;
+    await reauthenticateWithGoogle(idToken);
+    return true;
+  };
+
+  return (
+    <DeleteAccountButton
+      onPress={() => onDelete(reauthenticate)}
+      loading={loading}
+      disabled={!ready}
+    />
+  );
+}
+
+/**
+ * Link Google to a password account. Separate so the OAuth hook only mounts
+ * when a client id is configured.
+ */
+function LinkGoogleSection() {
+  const { ready, getIdToken } = useGoogleIdToken();
+  const [linked, setLinked] = useState(hasGoogleSignIn);
+  const [status, setStatus] = useState<FormStatus>(IDLE);
+
+  const handleLink = async () => {
+    setStatus({ ...IDLE, loading: true });
+    try {
+      const idToken = await getIdToken();
+      if (!idToken) {
+        setStatus(IDLE);
+        return;
+      }
+      await linkGoogleAccount(idToken);
+      setLinked(true);
+      setStatus({ ...IDLE, success: 'Google linked.' });
+    } catch (err: any) {
+      setStatus({ ...IDLE, error: err.message });
+    }
+  };
+
+  return (
+    <>
+      <Text variant="labelLarge" style={styles.sectionTitle}>
+        GOOGLE
+      </Text>
+      <Text variant="bodyMedium" style={styles.current}>
+        {linked
+          ? 'You can also sign in with Google.'
+          : 'Link your Google account to sign in with either.'}
+      </Text>
+      {renderStatus(status)}
+      {linked ? null : (
+        <Button
+          mode="contained"
+          icon="google"
+          onPress={handleLink}
+          loading={status.loading}
+          disabled={status.loading || !ready}
+          style={styles.primaryButton}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.buttonLabel}
+        >
+          Link Google
+        </Button>
+      )}
+    </>
+  );
+}
+
+export default function AccountSettingsScreen() {
+  const user = useAuthStore((state) => state.user);
+  const setUser = useAuthStore((state) => state.setUser);
+  const clearUser = useAuthStore((state) => state.signOut);
+  const canChangeCredentials = hasPasswordSignIn();
+
+  const [displayName, setDisplayName] = useState(user?.displayName || '');
+  const [nameStatus, setNameStatus] = useState<FormStatus>(IDLE);
+
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [emailStatus, setEmailStatus] = useState<FormStatus>(IDLE);
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordStatus, setPasswordStatus] = useState<FormStatus>(IDLE);
+
+  const [deletePassword, setDeletePassword] = useState('');
+  const [deleteStatus, setDeleteStatus] = useState<FormStatus>(IDLE);
+
+  const handleSaveName = async () => {
+    const name = displayName.trim();
+    if (name.length < 2) {
+      setNameStatus({ ...IDLE, error: 'Name must be at least 2 characters' });
+      return;
+    }
+
+    setNameStatus({ ...IDLE, loading: true });
+    try {
+      await updateDisplayName(name);
+      if (user) {
+        setUser({ ...user, displayName: name });
+      }
+      setNameStatus({ ...IDLE, success: 'Name updated.' });
+    } catch (err: any) {
+      setNameStatus({ ...IDLE, error: err.message });
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    const email = newEmail.trim();
+    if (!isValidEmail(email)) {
+      setEmailStatus({ ...IDLE, error: 'Please enter a valid email address' });
+      return;
+    }
+    if (email.toLowerCase() === user?.email.toLowerCase()) {
+      setEmailStatus({ ...IDLE, error: 'That is already your email address' });
+      return;
+    }
+    if (!emailPassword) {
+      setEmailStatus({ ...IDLE, error: 'Please enter your current password' });
+      return;
+    }
+
+    setEmailStatus({ ...IDLE, loading: true });
+    try {
+      await changeEmail(email, emailPassword);
+      setNewEmail('');
+      setEmailPassword('');
+      setEmailStatus({
+        ...IDLE,
+        success: `Check ${email} for a link to confirm the change. You'll be asked to sign in again afterwards.`,
+      });
+    } catch (err: any) {
+      setEmailStatus({ ...IDLE, error: err.message });
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!currentPassword) {
+      setPasswordStatus({
+        ...IDLE,
+        error: 'Please enter your current password',
+      });
+      return;
+    }
+    if (!isValidPassword(newPassword)) {
+      setPasswordStatus({
+        ...IDLE,
+        error: 'Password must be at least 6 characters',
+      });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setPasswordStatus({ ...IDLE, error: 'New passwords do not match' });
+      return;
+    }
+
+    setPasswordStatus({ ...IDLE, loading: true });
+    try {
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setPasswordStatus({ ...IDLE, success: 'Password changed.' });
+    } catch (err: any) {
+      setPasswordStatus({ ...IDLE, error: err.message });
+    }
+  };
+
+  // Google and Apple accounts have no password to confirm, so they sign in
+  // with their provider again instead
+  const confirmWithApple =
+    !canChangeCredentials && hasAppleSignIn() && isAppleSignInSupported();
+  const confirmWithGoogle =
+    !canChangeCredentials &&
+    !confirmWithApple &&
+    hasGoogleSignIn() &&
+    isGoogleSignInConfigured();
+
+  const confirmDeleteAccount = async (reauthenticate?: Reauthenticate) => {
+    setDeleteStatus({ ...IDLE, loading: true });
+    try {
+      if (reauthenticate && !(await reauthenticate())) {
+        setDeleteStatus(IDLE);
+        return;
+      }
+      await deleteAccount(canChangeCredentials ? deletePassword : undefined);
+      await cancelAllReminders();
+      clearUser();
+      router.replace('/(auth)/welcome');
+    } catch (err: any) {
+      setDeleteStatus({ ...IDLE, error: err.message });
+    }
+  };
+
+  const handleDeleteAccount = (reauthenticate?: Reauthenticate) => {
+    if (canChangeCredentials && !deletePassword) {
+      setDeleteStatus({
+        ...IDLE,
+        error: 'Please enter your current password',
+      });
+      return;
+    }
+
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your account, conditions, plans and session history. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => confirmDeleteAccount(reauthenticate),
+        },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text variant="labelLarge" style={styles.sectionTitle}>
+            DISPLAY NAME
+          </Text>
+          <TextInput
+            {...inputProps}
+            label="Full Name"
+            value={displayName}
+            onChangeText={setDisplayName}
+            autoCapitalize="words"
+            style={styles.input}
+            disabled={nameStatus.loading}
+          />
+          {renderStatus(nameStatus)}
+          <Button
+            mode="contained"
+            onPress={handleSaveName}
+            loading={nameStatus.loading}
+            disabled={
+              nameStatus.loading || displayName.trim() === user?.displayName
+            }
+            style={styles.primaryButton}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.buttonLabel}
+          >
+            Save Name
+          </Button>
+
+          {canChangeCredentials ? (
+            <>
+              <Text variant="labelLarge" style={styles.sectionTitle}>
+                EMAIL
+              </Text>
+              <Text variant="bodyMedium" style={styles.current}>
+                Currently {user?.email}
+              </Text>
+              <TextInput
+                {...inputProps}
+                label="New Email"
+                value={newEmail}
+                onChangeText={setNewEmail}
+                autoCapitalize="none"
+                keyboardType="email-address"
+                style={styles.input}
+                disabled={emailStatus.loading}
+              />
+              <TextInput
+                {...inputProps}
+                label="Current Password"
+                value={emailPassword}
+                onChangeText={setEmailPassword}
+                secureTextEntry
+                style={styles.input}
+                disabled={emailStatus.loading}
+              />
+              {renderStatus(emailStatus)}
+              <Button
+                mode="contained"
+                onPress={handleChangeEmail}
+                loading={emailStatus.loading}
+                disabled={emailStatus.loading}
+                style={styles.primaryButton}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+              >
+                Send Verification Link
+              </Button>
+
+              <Text variant="labelLarge" style={styles.sectionTitle}>
+                PASSWORD
+              </Text>
+              <TextInput
+                {...inputProps}
+                label="Current Password"
+                value={currentPassword}
+                onChangeText={setCurrentPassword}
+                secureTextEntry
+                style={styles.input}
+                disabled={passwordStatus.loading}
+              />
+              <TextInput
+                {...inputProps}
+                label="New Password"
+                value={newPassword}
+                onChangeText={setNewPassword}
+                secureTextEntry
+                style={styles.input}
+                disabled={passwordStatus.loading}
+              />
+              <TextInput
+                {...inputProps}
+                label="Confirm New Password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                style={styles.input}
+                disabled={passwordStatus.loading}
+              />
+              <HelperText type="info" visible style={styles.helperText}>
+                At least 6 characters
+              </HelperText>
+              {renderStatus(passwordStatus)}
+              <Button
+                mode="contained"
+                onPress={handleChangePassword}
+                loading={passwordStatus.loading}
+                disabled={passwordStatus.loading}
+                style={styles.primaryButton}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+              >
+                Change Password
+              </Button>
+
+              {isGoogleSignInConfigured() ? <LinkGoogleSection /> : null}
+            </>
+          ) : (
+            <Text variant="bodyMedium" style={styles.current}>
+              You sign in with Google or Apple, so your email and password are
+              managed in that account.
+            </Text>
+          )}
+
+          <Text variant="labelLarge" style={styles.sectionTitle}>
+            DELETE ACCOUNT
+          </Text>
+          <Text variant="bodyMedium" style={styles.current}>
+            Permanently delete your account and all of your recovery data.
+            Records of safety warnings you chose to continue past are kept for
+            liability reasons.
+          </Text>
+          {canChangeCredentials ? (
+            <TextInput
+              {...inputProps}
+              label="Current Password"
+              value={deletePassword}
+              onChangeText={setDeletePassword}
+              secureTextEntry
+              style={styles.input}
+              disabled={deleteStatus.loading}
+            />
+          ) : confirmWithApple || confirmWithGoogle ? (
+            <Text variant="bodyMedium" style={styles.current}>
+              You'll be asked to sign in with{' '}
+              {confirmWithApple ? 'Apple' : 'Google'} again to confirm.
+            </Text>
+          ) : null}
+          {renderStatus(deleteStatus)}
+          {confirmWithGoogle ? (
+            <GoogleDeleteAccountButton
+              onDelete={handleDeleteAccount}
+              loading={deleteStatus.loading}
+            />
+          ) : (
+            <DeleteAccountButton
+              onPress={() =>
+                handleDeleteAccount(
+                  confirmWithApple ? reauthenticateWithApple : undefined,
+                )
+              }
+              loading={deleteStatus.loading}
+            />
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    color: '#8E8E93',
+    marginBottom: 12,
+    marginLeft: 4,
+    letterSpacing: 0.5,
+  },
+  current: {
+    color: '#8E8E93',
+    marginBottom: 16,
+    marginLeft: 4,
+  },
+  input: {
+    marginBottom: 16,
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    fontSize: 17,
+  },
+  helperText: {
+    marginTop: -8,
+    marginBottom: 8,
+    color: '#8E8E93',
+  },
+  errorText: {
+    marginTop: -8,
+    marginBottom: 8,
+    color: '#FF453A',
+  },
+  successText: {
+    marginTop: -8,
+    marginBottom: 8,
+    color: '#66BB6A',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginBottom: 40,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  deleteButton: {
+    borderRadius: 14,
+    borderColor: '#FF453A',
+  },
+  deleteLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#FF453A',
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+});
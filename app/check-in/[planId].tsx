@@ -0,0 +1,485 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Linking,
+} from 'react-native';
+import {
+  Text,
+  Button,
+  HelperText,
+  ActivityIndicator,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useAuthStore } from '@/stores/authStore';
+import { useConditionStore } from '@/stores/conditionStore';
+import {
+  AdaptationAction,
+  CheckInDifficulty,
+  CheckInOverall,
+  getPlan,
+  RehabPlan,
+} from '@/services/planService';
+import { getSessionLogsForPlan, SessionLog } from '@/services/sessionService';
+import {
+  CHECK_IN_DIFFICULTY_LABELS,
+  CHECK_IN_OVERALL_LABELS,
+  completeCheckIn,
+  getCheckInAdjustment,
+} from '@/services/checkInService';
+import { getAdherence, getPainDelta } from '@/utils/recoveryAnalytics';
+import { PROVIDER_SEARCH_URL } from '@/constants/links';
+
+type CheckInStep = 'overall' | 'difficulty' | 'symptoms' | 'decision';
+
+interface DecisionOption {
+  outcome: AdaptationAction;
+  label: string;
+  description: string;
+}
+
+const IMPROVING_OPTIONS: DecisionOption[] = [
+  {
+    outcome: 'maintained',
+    label: 'Continue Current Plan',
+    description: "Keep doing what's working",
+  },
+  {
+    outcome: 'resolved',
+    label: 'Mark as Resolved',
+    description: 'Move to completed protocols',
+  },
+  {
+    outcome: 'progressed',
+    label: 'Get Advanced Exercises',
+    description: 'Progress to the next level',
+  },
+];
+
+// What we offer for each answer to "How are you feeling overall?"
+const DECISIONS: Record<
+  CheckInOverall,
+  { title: string; message: string; options: DecisionOption[] }
+> = {
+  much_better: {
+    title: 'Great Progress! 🎉',
+    message: 'Your pain has improved. What would you like to do?',
+    options: IMPROVING_OPTIONS,
+  },
+  somewhat_better: {
+    title: 'Great Progress! 🎉',
+    message: 'Your pain is improving. What would you like to do?',
+    options: IMPROVING_OPTIONS,
+  },
+  no_change: {
+    title: "Let's Try Something Different",
+    message: 'Your progress has plateaued. This happens sometimes!',
+    // Plus MODIFY_OPTIONS for how the exercises feel
+    options: [
+      {
+        outcome: 'maintained',
+        label: 'Continue Anyway',
+        description: 'Sometimes it takes longer',
+      },
+    ],
+  },
+  worse: {
+    title: "⚠️ Let's Be Careful",
+    message:
+      'Your pain has worsened. This may indicate your condition needs professional evaluation.',
+    options: [
+      {
+        outcome: 'regressed',
+        label: 'Pause This Protocol',
+        description: 'Stop exercises and rest',
+      },
+    ],
+  },
+};
+
+// A plateau with exercises that feel off gets their load adjusted
+const MODIFY_OPTIONS: Partial<Record<CheckInDifficulty, DecisionOption>> = {
+  too_easy: {
+    outcome: 'modified',
+    label: 'Make It More Challenging',
+    description: 'Add a set (or reps) to each exercise',
+  },
+  too_hard: {
+    outcome: 'modified',
+    label: 'Make It Easier',
+    description: 'Drop a set (or reps) from each exercise',
+  },
+};
+
+export default function CheckInScreen() {
+  const { planId } = useLocalSearchParams<{ planId: string }>();
+  const user = useAuthStore((state) => state.user);
+  const condition = useConditionStore((state) =>
+    state.conditions.find((item) => item.activePlanId === planId),
+  );
+
+  const [plan, setPlan] = useState<RehabPlan | null>(null);
+  const [logs, setLogs] = useState<SessionLog[]>([]);
+  const [loadingPlan, setLoadingPlan] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [step, setStep] = useState<CheckInStep>('overall');
+  const [overall, setOverall] = useState<CheckInOverall | null>(null);
+  const [difficulty, setDifficulty] = useState<CheckInDifficulty | null>(null);
+  const [newSymptoms, setNewSymptoms] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!planId || !user) return;
+
+    Promise.all([getPlan(planId), getSessionLogsForPlan(user.uid, planId)])
+      .then(([loadedPlan, loadedLogs]) => {
+        setPlan(loadedPlan);
+        setLogs(loadedLogs);
+      })
+      .catch((err) => {
+        console.error('Load check-in error:', err);
+        setLoadError(err.message || 'Failed to load your check-in.');
+      })
+      .finally(() => setLoadingPlan(false));
+  }, [planId, user?.uid]);
+
+  if (loadingPlan) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#66BB6A" />
+      </View>
+    );
+  }
+
+  if (!plan) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text variant="titleMedium" style={styles.title}>
+            {loadError || "We couldn't find this plan."}
+          </Text>
+          <Button mode="text" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const painDelta = getPainDelta(logs);
+  const adherence = getAdherence(
+    logs,
+    plan.frequency,
+    plan.startDate,
+    new Date(),
+  );
+  const improvement =
+    painDelta && painDelta.first > 0
+      ? Math.round((-painDelta.change / painDelta.first) * 100)
+      : null;
+  const regionName = condition
+    ? condition.bodyRegion.replace(/_/g, ' ').toUpperCase()
+    : plan.protocolName;
+
+  const handleFindProvider = () => {
+    Linking.openURL(PROVIDER_SEARCH_URL).catch((err) =>
+      console.error('Open provider search error:', err),
+    );
+  };
+
+  const handleDecision = async (outcome: AdaptationAction) => {
+    if (!overall || !difficulty || newSymptoms === null) return;
+
+    setError('');
+    setSaving(true);
+    try {
+      await completeCheckIn(
+        plan,
+        { overall, difficulty, newSymptoms },
+        outcome,
+      );
+      if (outcome === 'resolved' || outcome === 'regressed') {
+        router.replace('/(tabs)/dashboard');
+      } else {
+        router.back();
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChoices = <T extends string>(
+    labels: Record<T, string>,
+    onSelect: (value: T) => void,
+  ) =>
+    (Object.keys(labels) as T[]).map((value) => (
+      <TouchableOpacity
+        key={value}
+        style={styles.choice}
+        onPress={() => onSelect(value)}
+      >
+        <Text style={styles.choiceText}>{labels[value]}</Text>
+      </TouchableOpacity>
+    ));
+
+  const decision = overall ? DECISIONS[overall] : null;
+  const modifyOption =
+    overall === 'no_change' && difficulty
+      ? MODIFY_OPTIONS[difficulty]
+      : undefined;
+  // Nothing that makes the exercises harder until new symptoms are checked
+  const options = [
+    ...(modifyOption ? [modifyOption] : []),
+    ...(decision?.options ?? []),
+  ].filter(
+    (option) =>
+      !newSymptoms ||
+      (difficulty &&
+        getCheckInAdjustment(option.outcome, difficulty) !== 'progress'),
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {step === 'overall' && (
+          <View>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              You've been working on your {regionName} protocol for a while.
+              Time to check in.
+            </Text>
+
+            <View style={styles.card}>
+              <Text variant="titleMedium" style={styles.cardTitle}>
+                📊 Your Progress
+              </Text>
+              <Text variant="bodyMedium" style={styles.cardLine}>
+                • {logs.length} {logs.length === 1 ? 'session' : 'sessions'}{' '}
+                completed
+              </Text>
+              {painDelta ? (
+                <Text variant="bodyMedium" style={styles.cardLine}>
+                  • Pain: {painDelta.first} → {painDelta.latest}
+                  {improvement !== null && improvement > 0
+                    ? ` (${improvement}% improvement)`
+                    : ''}
+                </Text>
+              ) : null}
+              {adherence ? (
+                <Text variant="bodyMedium" style={styles.cardLine}>
+                  • Adherence: {Math.round(adherence.rate * 100)}%
+                </Text>
+              ) : null}
+            </View>
+
+            <Text variant="titleMedium" style={styles.question}>
+              How are you feeling overall?
+            </Text>
+            {renderChoices(CHECK_IN_OVERALL_LABELS, (value) => {
+              setOverall(value);
+              setStep('difficulty');
+            })}
+          </View>
+        )}
+
+        {step === 'difficulty' && (
+          <View>
+            <Text variant="titleMedium" style={styles.question}>
+              How do the exercises feel?
+            </Text>
+            {renderChoices(CHECK_IN_DIFFICULTY_LABELS, (value) => {
+              setDifficulty(value);
+              setStep('symptoms');
+            })}
+          </View>
+        )}
+
+        {step === 'symptoms' && (
+          <View>
+            <Text variant="titleMedium" style={styles.question}>
+              Any new symptoms since you started? (numbness, tingling, weakness,
+              pain in a new area)
+            </Text>
+            {renderChoices({ yes: 'Yes', no: 'No' }, (value) => {
+              setNewSymptoms(value === 'yes');
+              setStep('decision');
+            })}
+          </View>
+        )}
+
+        {step === 'decision' && decision && (
+          <View>
+            <Text variant="headlineSmall" style={styles.title}>
+              {decision.title}
+            </Text>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              {decision.message}
+            </Text>
+
+            {newSymptoms ? (
+              <View style={styles.warningCard}>
+                <Text variant="bodyMedium" style={styles.warningText}>
+                  New symptoms should be checked by a licensed healthcare
+                  provider before you continue exercising. Numbness, tingling,
+                  weakness or loss of bladder or bowel control need prompt care.
+                  Harder exercises stay unavailable until then.
+                </Text>
+              </View>
+            ) : null}
+
+            {(overall === 'worse' ||
+              overall === 'no_change' ||
+              newSymptoms) && (
+              <Button
+                mode="contained"
+                onPress={handleFindProvider}
+                style={styles.primaryButton}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+              >
+                {overall === 'no_change' && !newSymptoms
+                  ? 'Consult a Professional'
+                  : 'Find a Healthcare Provider'}
+              </Button>
+            )}
+
+            {options.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={styles.option}
+                onPress={() => handleDecision(option.outcome)}
+                disabled={saving}
+              >
+                <Text variant="titleMedium" style={styles.optionLabel}>
+                  {option.label}
+                </Text>
+                <Text variant="bodyMedium" style={styles.optionDescription}>
+                  → {option.description}
+                </Text>
+              </TouchableOpacity>
+            ))}
+
+            {saving && (
+              <ActivityIndicator color="#66BB6A" style={styles.saving} />
+            )}
+            {error ? (
+              <HelperText type="error" visible style={styles.errorText}>
+                {error}
+              </HelperText>
+            ) : null}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#000000',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 40,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#8E8E93',
+    fontSize: 17,
+    lineHeight: 24,
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 32,
+  },
+  cardTitle: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  cardLine: {
+    color: '#FFFFFF',
+    marginBottom: 6,
+  },
+  question: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  choice: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 14,
+    paddingVertical: 18,
+    paddingHorizontal: 20,
+    marginBottom: 12,
+  },
+  choiceText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  warningCard: {
+    backgroundColor: '#3D2C1E',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  warningText: {
+    color: '#FFD59E',
+    lineHeight: 20,
+  },
+  option: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 14,
+    padding: 20,
+    marginTop: 12,
+  },
+  optionLabel: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  optionDescription: {
+    color: '#8E8E93',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginBottom: 8,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  saving: {
+    marginTop: 16,
+  },
+  errorText: {
+    color: '#FF453A',
+  },
+});
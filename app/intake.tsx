@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableOpacity,
+} from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  HelperText,
+  IconButton,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuthStore } from '@/stores/authStore';
+import { useIntakeStore } from '@/stores/intakeStore';
+import { getEntitlement } from '@/utils/entitlements';
+
+export default function IntakeScreen() {
+  const user = useAuthStore((state) => state.user);
+  const messages = useIntakeStore((state) => state.messages);
+  const pendingQuestion = useIntakeStore((state) => state.pendingQuestion);
+  const result = useIntakeStore((state) => state.result);
+  const sending = useIntakeStore((state) => state.sending);
+  const redFlags = useIntakeStore((state) => state.redFlags);
+  const acknowledgmentId = useIntakeStore((state) => state.acknowledgmentId);
+  const error = useIntakeStore((state) => state.error);
+  const sendMessage = useIntakeStore((state) => state.sendMessage);
+  const finishIntake = useIntakeStore((state) => state.finishIntake);
+
+  const [input, setInput] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  const scrollRef = useRef<ScrollView>(null);
+
+  const needsRedFlagWarning = redFlags.length > 0 && !acknowledgmentId;
+
+  // Red flags from either the screener or the AI go straight to the warning
+  useEffect(() => {
+    if (result && needsRedFlagWarning) {
+      router.push('/red-flag-warning');
+    }
+  }, [result, needsRedFlagWarning]);
+
+  const handleSend = async (content: string) => {
+    const trimmed = content.trim();
+    if (!trimmed || sending) return;
+
+    setInput('');
+    await sendMessage(trimmed);
+    if (useIntakeStore.getState().error) {
+      // Give the user their text back so they can retry
+      setInput(trimmed);
+    }
+  };
+
+  const handleStartRecovery = async () => {
+    if (!user || !result) return;
+
+    if (needsRedFlagWarning) {
+      router.push('/red-flag-warning');
+      return;
+    }
+
+    // The plan is only created once the user has access; the intake waits in the store
+    if (!getEntitlement(user).hasProtocolAccess) {
+      router.push('/paywall');
+      return;
+    }
+
+    setSaveError('');
+    setSaving(true);
+    try {
+      await finishIntake(user.uid);
+      router.replace('/(tabs)/dashboard');
+    } catch (err: any) {
+      setSaveError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 100 : 0}
+      >
+        <ScrollView
+          ref={scrollRef}
+          contentContainerStyle={styles.scrollContent}
+          onContentSizeChange={() =>
+            scrollRef.current?.scrollToEnd({ animated: true })
+          }
+        >
+          <View style={[styles.bubble, styles.assistantBubble]}>
+            <Text style={styles.assistantText}>
+              Describe your pain or movement issue. For example: "My lower back
+              is stiff in the mornings."
+            </Text>
+          </View>
+
+          {messages.map((message, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bubble,
+                message.role === 'user'
+                  ? styles.userBubble
+                  : styles.assistantBubble,
+              ]}
+            >
+              <Text
+                style={
+                  message.role === 'user'
+                    ? styles.userText
+                    : styles.assistantText
+                }
+              >
+                {message.content}
+              </Text>
+            </View>
+          ))}
+
+          {sending && (
+            <View style={[styles.bubble, styles.assistantBubble]}>
+              <Text style={styles.typingText}>Typing…</Text>
+            </View>
+          )}
+
+          {pendingQuestion?.options && !sending && (
+            <View style={styles.options}>
+              {pendingQuestion.options.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={styles.option}
+                  onPress={() => handleSend(option)}
+                >
+                  <Text style={styles.optionText}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {result && (
+            <View style={styles.summaryCard}>
+              <Text variant="titleMedium" style={styles.summaryTitle}>
+                {result.protocol.protocolName}
+              </Text>
+              <Text variant="bodyMedium" style={styles.summaryMeta}>
+                {result.protocol.exercises.length} simple exercises,{' '}
+                {result.protocol.frequency},{' '}
+                {result.protocol.targetDurationWeeks} weeks
+              </Text>
+              {result.protocol.exercises.map((exercise) => (
+                <Text
+                  key={exercise.id}
+                  variant="bodyMedium"
+                  style={styles.summaryExercise}
+                >
+                  • {exercise.name}
+                </Text>
+              ))}
+              <Text variant="bodySmall" style={styles.disclaimer}>
+                {result.protocol.disclaimer}
+              </Text>
+
+              {saveError ? (
+                <HelperText type="error" visible style={styles.errorText}>
+                  {saveError}
+                </HelperText>
+              ) : null}
+
+              <Button
+                mode="contained"
+                onPress={handleStartRecovery}
+                loading={saving}
+                disabled={saving}
+                style={styles.primaryButton}
+                contentStyle={styles.buttonContent}
+                labelStyle={styles.buttonLabel}
+              >
+                Start Recovery
+              </Button>
+            </View>
+          )}
+
+          {error ? (
+            <HelperText type="error" visible style={styles.errorText}>
+              {error}
+            </HelperText>
+          ) : null}
+        </ScrollView>
+
+        {!result && (
+          <View style={styles.inputRow}>
+            <TextInput
+              value={input}
+              onChangeText={setInput}
+              placeholder="Type your answer"
+              placeholderTextColor="#8E8E93"
+              multiline
+              mode="flat"
+              style={styles.input}
+              disabled={sending}
+              textColor="#FFFFFF"
+              underlineColor="transparent"
+              activeUnderlineColor="transparent"
+            />
+            <IconButton
+              icon="send"
+              iconColor="#66BB6A"
+              size={28}
+              onPress={() => handleSend(input)}
+              disabled={sending || !input.trim()}
+              accessibilityLabel="Send"
+            />
+          </View>
+        )}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 24,
+  },
+  bubble: {
+    maxWidth: '85%',
+    borderRadius: 18,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  assistantBubble: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#1C1C1E',
+  },
+  userBubble: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#2C3E2F',
+  },
+  assistantText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  userText: {
+    color: '#B8E7BC',
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  typingText: {
+    color: '#8E8E93',
+    fontStyle: 'italic',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginBottom: 12,
+  },
+  option: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#66BB6A',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginLeft: 8,
+    marginBottom: 8,
+  },
+  optionText: {
+    color: '#66BB6A',
+    fontSize: 15,
+  },
+  summaryCard: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 8,
+  },
+  summaryTitle: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  summaryMeta: {
+    color: '#8E8E93',
+    marginBottom: 16,
+  },
+  summaryExercise: {
+    color: '#FFFFFF',
+    marginBottom: 6,
+  },
+  disclaimer: {
+    color: '#8E8E93',
+    marginTop: 12,
+    lineHeight: 18,
+  },
+  errorText: {
+    color: '#FF453A',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginTop: 20,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#1C1C1E',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    fontSize: 16,
+    maxHeight: 120,
+  },
+});
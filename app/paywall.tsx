@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { Text, Button, HelperText } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuthStore } from '@/stores/authStore';
+import { useIntakeStore } from '@/stores/intakeStore';
+import {
+  startCheckout,
+  SUBSCRIPTION_PLANS,
+  SubscriptionTier,
+} from '@/services/paymentService';
+import { getEntitlement } from '@/utils/entitlements';
+
+export default function PaywallScreen() {
+  const user = useAuthStore((state) => state.user);
+  const updateSubscriptionStatus = useAuthStore(
+    (state) => state.updateSubscriptionStatus,
+  );
+  const result = useIntakeStore((state) => state.result);
+  const finishIntake = useIntakeStore((state) => state.finishIntake);
+  const entitlement = getEntitlement(user);
+
+  const [selectedTier, setSelectedTier] = useState<SubscriptionTier>('annual');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const handleCheckout = async () => {
+    if (!user) return;
+
+    setError('');
+    setNotice('');
+    setLoading(true);
+    try {
+      const checkout = await startCheckout({
+        uid: user.uid,
+        email: user.email,
+        tier: selectedTier,
+      });
+
+      // Cancelled or failed: stay here, the intake is still in the store
+      if (checkout.status === 'cancelled') {
+        setNotice(
+          'Checkout cancelled. Your plan is saved whenever you are ready.',
+        );
+        return;
+      }
+      if (checkout.status === 'failed') {
+        setError(checkout.error);
+        return;
+      }
+
+      // The webhook writes the profile; mirror it now so access is immediate
+      updateSubscriptionStatus(
+        'active',
+        checkout.tier,
+        checkout.subscriptionEndDate,
+      );
+
+      if (result) {
+        await finishIntake(user.uid);
+      }
+      router.replace('/(tabs)/dashboard');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text variant="headlineMedium" style={styles.title}>
+          Unlock Your Personalized Recovery Plan
+        </Text>
+        <Text variant="bodyLarge" style={styles.subtitle}>
+          {entitlement.access === 'expired'
+            ? 'Your subscription has ended. Renew to get back to your protocols and tracking.'
+            : 'Subscribe to access your protocols, guided sessions and progress tracking.'}
+        </Text>
+
+        {result && (
+          <View style={styles.previewCard}>
+            <Text variant="labelLarge" style={styles.previewLabel}>
+              YOUR PROTOCOL
+            </Text>
+            <Text variant="titleMedium" style={styles.previewTitle}>
+              {result.protocol.protocolName}
+            </Text>
+            <Text variant="bodyMedium" style={styles.previewMeta}>
+              {result.protocol.frequency}, {result.protocol.targetDurationWeeks}{' '}
+              weeks
+            </Text>
+            {result.protocol.exercises.map((exercise) => (
+              <Text
+                key={exercise.id}
+                variant="bodyMedium"
+                style={styles.previewExercise}
+              >
+                • {exercise.name}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {SUBSCRIPTION_PLANS.map((plan) => {
+          const selected = plan.tier === selectedTier;
+          return (
+            <TouchableOpacity
+              key={plan.tier}
+              style={[styles.planCard, selected && styles.planCardSelected]}
+              onPress={() => setSelectedTier(plan.tier)}
+              disabled={loading}
+            >
+              <View>
+                <Text variant="titleMedium" style={styles.planTitle}>
+                  {plan.title}
+                </Text>
+                {plan.savingsLabel && (
+                  <Text variant="labelMedium" style={styles.planSavings}>
+                    {plan.savingsLabel}
+                  </Text>
+                )}
+              </View>
+              <Text variant="titleMedium" style={styles.planPrice}>
+                {plan.priceLabel}
+                <Text style={styles.planPeriod}>{plan.periodLabel}</Text>
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        {notice ? (
+          <Text variant="bodyMedium" style={styles.notice}>
+            {notice}
+          </Text>
+        ) : null}
+
+        {error ? (
+          <HelperText type="error" visible style={styles.errorText}>
+            {error}
+          </HelperText>
+        ) : null}
+
+        <Button
+          mode="contained"
+          onPress={handleCheckout}
+          loading={loading}
+          disabled={loading}
+          style={styles.primaryButton}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.buttonLabel}
+        >
+          {result ? 'Start Recovery' : 'Subscribe'}
+        </Button>
+
+        <Button
+          mode="text"
+          onPress={() => router.replace('/(tabs)/dashboard')}
+          disabled={loading}
+          labelStyle={styles.secondaryLabel}
+        >
+          Back to Dashboard
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 32,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 12,
+    letterSpacing: -0.5,
+  },
+  subtitle: {
+    color: '#8E8E93',
+    fontSize: 17,
+    lineHeight: 24,
+    marginBottom: 24,
+  },
+  previewCard: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+  },
+  previewLabel: {
+    color: '#66BB6A',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  previewTitle: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  previewMeta: {
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  previewExercise: {
+    color: '#FFFFFF',
+    marginBottom: 6,
+  },
+  planCard: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#1C1C1E',
+    padding: 20,
+    marginBottom: 12,
+  },
+  planCardSelected: {
+    borderColor: '#66BB6A',
+  },
+  planTitle: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  planSavings: {
+    color: '#66BB6A',
+    marginTop: 2,
+  },
+  planPrice: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  planPeriod: {
+    color: '#8E8E93',
+    fontSize: 14,
+    fontWeight: '400',
+  },
+  notice: {
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  errorText: {
+    color: '#FF453A',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  secondaryLabel: {
+    color: '#8E8E93',
+    fontSize: 15,
+  },
+});
@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  BackHandler,
+  Linking,
+} from 'react-native';
+import { Text, Button, HelperText } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useAuthStore } from '@/stores/authStore';
+import { useIntakeStore } from '@/stores/intakeStore';
+import { RED_FLAG_DISCLAIMER_TEXT } from '@/services/acknowledgmentService';
+import { getEntitlement } from '@/utils/entitlements';
+import { PROVIDER_SEARCH_URL } from '@/constants/links';
+
+/**
+ * Flow 1b: shown before any paywall when the screener or the AI flags the
+ * intake. Cannot be dismissed without choosing an action.
+ */
+export default function RedFlagWarningScreen() {
+  const user = useAuthStore((state) => state.user);
+  const redFlags = useIntakeStore((state) => state.redFlags);
+  const acknowledgeRedFlags = useIntakeStore(
+    (state) => state.acknowledgeRedFlags,
+  );
+  const finishIntake = useIntakeStore((state) => state.finishIntake);
+  const resetIntake = useIntakeStore((state) => state.reset);
+
+  const [showWaiver, setShowWaiver] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Block the Android back button; the user has to pick an option
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener(
+      'hardwareBackPress',
+      () => true,
+    );
+    return () => subscription.remove();
+  }, []);
+
+  const handleFindProvider = () => {
+    Linking.openURL(PROVIDER_SEARCH_URL).catch((err) =>
+      console.error('Open provider search error:', err),
+    );
+  };
+
+  const handleAcknowledge = async () => {
+    if (!user) return;
+
+    setError('');
+    setLoading(true);
+    try {
+      // Logged before anything else so the decision is on record
+      await acknowledgeRedFlags(user.uid);
+      if (!getEntitlement(user).hasProtocolAccess) {
+        router.replace('/paywall');
+        return;
+      }
+      await finishIntake(user.uid);
+      router.replace('/(tabs)/dashboard');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExit = () => {
+    resetIntake();
+    router.replace('/(tabs)/dashboard');
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.icon}>⚠️</Text>
+        <Text variant="headlineSmall" style={styles.title}>
+          IMPORTANT: Consult a Professional
+        </Text>
+        <Text variant="bodyLarge" style={styles.body}>
+          Based on your symptoms, we strongly recommend consulting a licensed
+          healthcare provider before starting any exercise program.
+        </Text>
+
+        <Text variant="bodyLarge" style={styles.body}>
+          Your symptoms may indicate:
+        </Text>
+        <Text variant="bodyMedium" style={styles.bullet}>
+          • Severe pain requiring medical evaluation
+        </Text>
+        <Text variant="bodyMedium" style={styles.bullet}>
+          • Potential injury needing professional assessment
+        </Text>
+        <Text variant="bodyMedium" style={styles.bullet}>
+          • Condition outside scope of general wellness guidance
+        </Text>
+
+        <View style={styles.flagsCard}>
+          <Text variant="labelLarge" style={styles.flagsTitle}>
+            WE DETECTED
+          </Text>
+          {redFlags.map((flag) => (
+            <View key={flag.id} style={styles.flag}>
+              <Text variant="bodyLarge" style={styles.flagLabel}>
+                {flag.label}
+              </Text>
+              <Text variant="bodySmall" style={styles.flagReason}>
+                {flag.reason}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {showWaiver && (
+          <View style={styles.waiverCard}>
+            <Text variant="labelLarge" style={styles.waiverTitle}>
+              ACKNOWLEDGMENT
+            </Text>
+            <Text variant="bodyMedium" style={styles.waiverText}>
+              {RED_FLAG_DISCLAIMER_TEXT}
+            </Text>
+          </View>
+        )}
+
+        {error ? (
+          <HelperText type="error" visible style={styles.errorText}>
+            {error}
+          </HelperText>
+        ) : null}
+
+        <Button
+          mode="contained"
+          onPress={handleFindProvider}
+          disabled={loading}
+          style={styles.primaryButton}
+          contentStyle={styles.buttonContent}
+          labelStyle={styles.buttonLabel}
+        >
+          Find a Healthcare Provider
+        </Button>
+
+        {showWaiver ? (
+          <Button
+            mode="outlined"
+            onPress={handleAcknowledge}
+            loading={loading}
+            disabled={loading}
+            style={styles.secondaryButton}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.secondaryLabel}
+          >
+            I Acknowledge and Accept
+          </Button>
+        ) : (
+          <Button
+            mode="outlined"
+            onPress={() => setShowWaiver(true)}
+            style={styles.secondaryButton}
+            contentStyle={styles.buttonContent}
+            labelStyle={styles.secondaryLabel}
+          >
+            I Understand, Continue Anyway
+          </Button>
+        )}
+
+        <Button
+          mode="text"
+          onPress={handleExit}
+          disabled={loading}
+          labelStyle={styles.exitLabel}
+        >
+          Not Now
+        </Button>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 40,
+    paddingBottom: 40,
+  },
+  icon: {
+    fontSize: 48,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    color: '#FF9F0A',
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  body: {
+    color: '#FFFFFF',
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  bullet: {
+    color: '#C7C7CC',
+    marginBottom: 6,
+    marginLeft: 8,
+  },
+  flagsCard: {
+    backgroundColor: '#3D2C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginTop: 20,
+    marginBottom: 24,
+  },
+  flagsTitle: {
+    color: '#FFD59E',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  flag: {
+    marginBottom: 12,
+  },
+  flagLabel: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  flagReason: {
+    color: '#FFD59E',
+  },
+  waiverCard: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#38383A',
+    padding: 20,
+    marginBottom: 24,
+  },
+  waiverTitle: {
+    color: '#8E8E93',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  waiverText: {
+    color: '#FFFFFF',
+    lineHeight: 22,
+  },
+  errorText: {
+    color: '#FF453A',
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginBottom: 12,
+  },
+  secondaryButton: {
+    borderRadius: 14,
+    borderColor: '#38383A',
+    marginBottom: 12,
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  secondaryLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  exitLabel: {
+    color: '#8E8E93',
+    fontSize: 15,
+  },
+});
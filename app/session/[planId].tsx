@@ -0,0 +1,510 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert, Image } from 'react-native';
+import { Text, Button, TextInput, ActivityIndicator } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useAuthStore } from '@/stores/authStore';
+import { getPlan, RehabPlan } from '@/services/planService';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { useConditionStore } from '@/stores/conditionStore';
+import {
+  createSessionLogId,
+  getSessionLog,
+  getWeekNumber,
+  SessionLog,
+} from '@/services/sessionService';
+import {
+  createPainCheckInId,
+  PainCheckInContext,
+} from '@/services/painCheckInService';
+import {
+  requestReminderPermission,
+  schedulePlanReminders,
+} from '@/services/reminderService';
+import {
+  ExerciseGuide,
+  getExerciseGuide,
+} from '@/services/exerciseLibraryService';
+import PainRatingScale from '@/components/PainRatingScale';
+import PendingSyncNotice from '@/components/PendingSyncNotice';
+
+type SessionStep = 'pre' | 'exercise' | 'post' | 'notes' | 'complete';
+
+export default function SessionScreen() {
+  const { planId } = useLocalSearchParams<{ planId: string }>();
+  const user = useAuthStore((state) => state.user);
+  const enqueue = useOutboxStore((state) => state.enqueue);
+  const pendingIds = useOutboxStore((state) => state.pendingIds);
+
+  const [plan, setPlan] = useState<RehabPlan | null>(null);
+  const [loadingPlan, setLoadingPlan] = useState(true);
+  const [step, setStep] = useState<SessionStep>('pre');
+  const [prePain, setPrePain] = useState<number | null>(null);
+  const [postPain, setPostPain] = useState<number | null>(null);
+  const [exerciseIndex, setExerciseIndex] = useState(0);
+  const [completedIds, setCompletedIds] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [savedLog, setSavedLog] = useState<SessionLog | null>(null);
+  const [guides, setGuides] = useState<Record<string, ExerciseGuide>>({});
+  const bodyRegion = useConditionStore(
+    (state) =>
+      state.conditions.find((item) => item.id === plan?.conditionId)
+        ?.bodyRegion,
+  );
+
+  // Generated once so a retried save overwrites rather than duplicates
+  const [logId] = useState(() => createSessionLogId());
+
+  useEffect(() => {
+    if (!planId) return;
+
+    getPlan(planId).then((loadedPlan) => {
+      setPlan(loadedPlan);
+      setLoadingPlan(false);
+    });
+  }, [planId]);
+
+  // Resolve every exercise up front so the whole session works offline
+  useEffect(() => {
+    if (!plan) return;
+
+    plan.exercises.forEach((exercise) => {
+      getExerciseGuide(exercise, bodyRegion)
+        .then((guide) =>
+          setGuides((current) => ({ ...current, [exercise.id]: guide })),
+        )
+        .catch((err) => console.error('Load exercise guide error:', err));
+    });
+  }, [plan, bodyRegion]);
+
+  // Once the queued log has synced, load it for its session number
+  const logPending = pendingIds.includes(logId);
+  useEffect(() => {
+    if (step !== 'complete' || logPending || savedLog) return;
+    getSessionLog(logId).then(setSavedLog);
+  }, [step, logPending, savedLog, logId]);
+
+  if (loadingPlan) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#66BB6A" />
+      </View>
+    );
+  }
+
+  if (!plan || !user) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.centered}>
+          <Text variant="titleMedium" style={styles.title}>
+            We couldn't find this plan.
+          </Text>
+          <Button mode="text" onPress={() => router.back()}>
+            Go Back
+          </Button>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const exercises = plan.exercises;
+  const currentExercise = exercises[exerciseIndex];
+  const currentGuide = currentExercise ? guides[currentExercise.id] : undefined;
+  // Steps split from the plan's own description would just repeat it
+  const showSteps =
+    !!currentGuide &&
+    (currentGuide.source !== 'plan' || !currentExercise.description);
+
+  const advanceExercise = (completed: boolean) => {
+    if (completed) {
+      setCompletedIds((ids) => [...ids, currentExercise.id]);
+    }
+
+    if (exerciseIndex + 1 < exercises.length) {
+      setExerciseIndex(exerciseIndex + 1);
+    } else {
+      setStep('post');
+    }
+  };
+
+  // Check-ins and the log go through the outbox so nothing is lost offline
+  const recordCheckIn = (context: PainCheckInContext, painScore: number) => {
+    enqueue({
+      kind: 'painCheckIn',
+      id: createPainCheckInId(),
+      checkIn: {
+        userId: user.uid,
+        conditionId: plan.conditionId,
+        planId: plan.id,
+        painScore,
+        context,
+        recordedAt: new Date(),
+      },
+    }).catch((err) => console.error('Queue pain check-in error:', err));
+  };
+
+  const handleCompleteSession = async (sessionNotes: string) => {
+    if (prePain === null || postPain === null) return;
+
+    setSaving(true);
+    try {
+      const completedAt = new Date();
+      await enqueue({
+        kind: 'sessionLog',
+        id: logId,
+        session: {
+          userId: user.uid,
+          planId: plan.id,
+          conditionId: plan.conditionId,
+          completedAt,
+          prePainScore: prePain,
+          postPainScore: postPain,
+          exercisesCompleted: completedIds,
+          notes: sessionNotes.trim() || undefined,
+        },
+        planStartDate: plan.startDate,
+      });
+
+      setStep('complete');
+      // Count the next reminders from this session; asking for permission
+      // here, right after a session, is when reminders make most sense
+      requestReminderPermission()
+        .then(() => schedulePlanReminders(plan, completedAt))
+        .catch((err) => console.error('Schedule reminders error:', err));
+    } catch (err) {
+      console.error('Queue session log error:', err);
+      Alert.alert('Error', 'Failed to save your session. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const painDirection =
+    prePain === null || postPain === null
+      ? ''
+      : postPain < prePain
+        ? '↓ Improving!'
+        : postPain > prePain
+          ? '↑'
+          : '→';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {step === 'pre' && (
+          <View>
+            <Text variant="headlineSmall" style={styles.title}>
+              Session Check-In
+            </Text>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              Before we start, how is your pain? Rate it right now (0-10).
+            </Text>
+
+            <PainRatingScale value={prePain} onChange={setPrePain} />
+
+            <Button
+              mode="contained"
+              onPress={() => {
+                if (prePain === null) return;
+                recordCheckIn('pre-session', prePain);
+                setStep(exercises.length > 0 ? 'exercise' : 'post');
+              }}
+              disabled={prePain === null}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Continue
+            </Button>
+          </View>
+        )}
+
+        {step === 'exercise' && currentExercise && (
+          <View>
+            <Text variant="labelLarge" style={styles.progress}>
+              Exercise {exerciseIndex + 1} of {exercises.length}
+            </Text>
+            <Text variant="headlineSmall" style={styles.exerciseName}>
+              {currentExercise.name.toUpperCase()}
+            </Text>
+
+            {currentGuide?.gifUrl ? (
+              <Image
+                source={{ uri: currentGuide.gifUrl }}
+                style={styles.media}
+                resizeMode="contain"
+              />
+            ) : null}
+
+            <Text variant="labelLarge" style={styles.sectionTitle}>
+              Instructions
+            </Text>
+            {currentExercise.description ? (
+              <Text variant="bodyLarge" style={styles.body}>
+                {currentExercise.description}
+              </Text>
+            ) : null}
+            {showSteps
+              ? currentGuide.instructions.map((instruction, index) => (
+                  <Text key={index} variant="bodyMedium" style={styles.step}>
+                    {index + 1}. {instruction}
+                  </Text>
+                ))
+              : null}
+            {currentExercise.notes ? (
+              <Text variant="bodyMedium" style={styles.notes}>
+                {currentExercise.notes}
+              </Text>
+            ) : null}
+
+            <Text variant="titleMedium" style={styles.dosage}>
+              {currentExercise.sets} sets × {currentExercise.reps}
+            </Text>
+
+            <Button
+              mode="contained"
+              icon="check"
+              onPress={() => advanceExercise(true)}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Mark Complete
+            </Button>
+            <Button
+              mode="text"
+              onPress={() => advanceExercise(false)}
+              labelStyle={styles.secondaryLabel}
+            >
+              Skip This Exercise
+            </Button>
+          </View>
+        )}
+
+        {step === 'post' && (
+          <View>
+            <Text variant="headlineSmall" style={styles.title}>
+              How do you feel now?
+            </Text>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              You completed {completedIds.length} of {exercises.length}{' '}
+              exercises! Rate your pain now (0-10).
+            </Text>
+
+            <PainRatingScale value={postPain} onChange={setPostPain} />
+
+            {postPain !== null && (
+              <Text variant="titleMedium" style={styles.comparison}>
+                Before: {prePain} → After: {postPain} {painDirection}
+              </Text>
+            )}
+
+            <Button
+              mode="contained"
+              onPress={() => {
+                if (postPain === null) return;
+                recordCheckIn('post-session', postPain);
+                setStep('notes');
+              }}
+              disabled={postPain === null}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Continue
+            </Button>
+          </View>
+        )}
+
+        {step === 'notes' && (
+          <View>
+            <Text variant="headlineSmall" style={styles.title}>
+              Session Notes (Optional)
+            </Text>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              How did this session feel?
+            </Text>
+
+            <TextInput
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              numberOfLines={5}
+              mode="flat"
+              style={styles.input}
+              disabled={saving}
+              textColor="#FFFFFF"
+              underlineColor="transparent"
+              activeUnderlineColor="transparent"
+              theme={{ colors: { onSurfaceVariant: '#8E8E93' } }}
+            />
+
+            <Button
+              mode="contained"
+              onPress={() => handleCompleteSession(notes)}
+              loading={saving}
+              disabled={saving}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Complete Session
+            </Button>
+            <Button
+              mode="text"
+              onPress={() => handleCompleteSession('')}
+              disabled={saving}
+              labelStyle={styles.secondaryLabel}
+            >
+              Skip
+            </Button>
+          </View>
+        )}
+
+        {step === 'complete' && (
+          <View style={styles.completeContainer}>
+            <Text variant="headlineMedium" style={styles.title}>
+              ✨ Session Complete! ✨
+            </Text>
+            <Text variant="bodyLarge" style={styles.subtitle}>
+              {savedLog
+                ? `Great work! That was session ${savedLog.sessionNumber}, in week ${savedLog.weekNumber} of ${plan.targetDurationWeeks}.`
+                : `Great work! You're in week ${getWeekNumber(plan.startDate, new Date())} of ${plan.targetDurationWeeks}.`}
+            </Text>
+            <Text variant="titleMedium" style={styles.comparison}>
+              Your pain went from {prePain} → {postPain}
+            </Text>
+
+            {logPending && (
+              <Text variant="bodyMedium" style={styles.offlineNote}>
+                Saved on this device. It will sync when you're back online.
+              </Text>
+            )}
+            <PendingSyncNotice />
+
+            <Button
+              mode="contained"
+              onPress={() => router.replace('/(tabs)/dashboard')}
+              style={styles.primaryButton}
+              contentStyle={styles.buttonContent}
+              labelStyle={styles.buttonLabel}
+            >
+              Back to Dashboard
+            </Button>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  offlineNote: {
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#000000',
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 24,
+    paddingBottom: 40,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#8E8E93',
+    fontSize: 17,
+    lineHeight: 24,
+    marginBottom: 32,
+  },
+  progress: {
+    color: '#8E8E93',
+    marginBottom: 8,
+    letterSpacing: 0.5,
+  },
+  exerciseName: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  body: {
+    color: '#FFFFFF',
+    lineHeight: 24,
+    marginBottom: 12,
+  },
+  media: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#1C1C1E',
+    marginBottom: 16,
+  },
+  step: {
+    color: '#C7C7CC',
+    lineHeight: 22,
+    marginBottom: 6,
+  },
+  notes: {
+    color: '#C7C7CC',
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
+  dosage: {
+    color: '#66BB6A',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  comparison: {
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  input: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 12,
+    fontSize: 17,
+    minHeight: 120,
+  },
+  completeContainer: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  primaryButton: {
+    borderRadius: 14,
+    backgroundColor: '#66BB6A',
+    marginTop: 32,
+    marginBottom: 12,
+    alignSelf: 'stretch',
+  },
+  buttonContent: {
+    height: 56,
+  },
+  buttonLabel: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  secondaryLabel: {
+    color: '#8E8E93',
+    fontSize: 15,
+  },
+});
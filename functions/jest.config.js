@@ -0,0 +1,7 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  // Needs the Firestore emulator, see test:emulator
+  testPathIgnorePatterns: ['/node_modules/', '\\.emulator\\.test\\.ts$'],
+};
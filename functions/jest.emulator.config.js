@@ -0,0 +1,7 @@
+// Firestore emulator tests, run by `npm run test:emulator`
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.emulator.test.ts'],
+};
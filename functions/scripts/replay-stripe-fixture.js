@@ -0,0 +1,53 @@
+/**
+ * Replays a recorded Stripe event against the stripeWebhook function in the
+ * local emulator, signed the same way Stripe signs live deliveries.
+ *
+ * Usage: npm run stripe:replay -- <fixture-name> [project-id]
+ *   e.g. npm run stripe:replay -- customer.subscription.created demo-recoverly
+ *
+ * STRIPE_WEBHOOK_SECRET must match the value in functions/.secret.local.
+ */
+const fs = require('fs');
+const path = require('path');
+const Stripe = require('stripe');
+
+const [fixtureName, projectId = process.env.GCLOUD_PROJECT] =
+  process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!fixtureName || !projectId || !secret) {
+  console.error(
+    'Usage: STRIPE_WEBHOOK_SECRET=whsec_... npm run stripe:replay -- <fixture-name> <project-id>',
+  );
+  process.exit(1);
+}
+
+const fixturePath = path.join(
+  __dirname,
+  '..',
+  'fixtures',
+  'stripe',
+  `${fixtureName.replace(/\.json$/, '')}.json`,
+);
+const payload = fs.readFileSync(fixturePath, 'utf8');
+const signature = new Stripe(
+  'sk_test_unused',
+).webhooks.generateTestHeaderString({ payload, secret });
+const url = `http://127.0.0.1:5001/${projectId}/us-central1/stripeWebhook`;
+
+fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': signature,
+  },
+  body: payload,
+})
+  .then(async (response) => {
+    console.log(`${response.status} ${await response.text()}`);
+    process.exit(response.ok ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error('Replay failed:', error.message);
+    process.exit(1);
+  });
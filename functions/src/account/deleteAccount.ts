@@ -0,0 +1,120 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { getStripe, stripeSecretKey } from '../billing/stripeConfig';
+
+// Collections holding one doc per user-owned record, keyed by `userId`
+const USER_DATA_COLLECTIONS = [
+  'conditions',
+  'rehabPlans',
+  'sessionLogs',
+  'painCheckIns',
+];
+
+// Subscriptions that can no longer bill, so there is nothing to cancel
+const ENDED_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = [
+  'canceled',
+  'incomplete_expired',
+];
+
+// Deleting an account needs a sign-in this recent (seconds)
+const MAX_AUTH_AGE_SECONDS = 5 * 60;
+
+const isMissingStripeResource = (error: unknown): boolean =>
+  (error as { code?: string } | null)?.code === 'resource_missing';
+
+/**
+ * Cancel the customer's subscriptions that can still bill, then delete the
+ * customer, which holds the user's email and uid metadata. A customer already
+ * deleted by an earlier attempt counts as done.
+ */
+const deleteStripeCustomer = async (customerId: string): Promise<void> => {
+  const stripe = getStripe();
+
+  try {
+    const cancellations: Promise<unknown>[] = [];
+    // 'all' also covers trialing, past_due and unpaid subscriptions
+    for await (const subscription of stripe.subscriptions.list({
+      customer: customerId,
+      status: 'all',
+      limit: 100,
+    })) {
+      if (!ENDED_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+        cancellations.push(stripe.subscriptions.cancel(subscription.id));
+      }
+    }
+    await Promise.all(cancellations);
+
+    await stripe.customers.del(customerId);
+  } catch (error) {
+    if (!isMissingStripeResource(error)) throw error;
+  }
+};
+
+/**
+ * Callable: permanently delete the signed-in user's account and data.
+ *
+ * Deleted: the users doc, every doc in USER_DATA_COLLECTIONS, every Stripe
+ * subscription that can still bill and the Stripe customer, and finally the
+ * Auth user (last, so a failure part way through can be retried by the same
+ * user).
+ *
+ * Retention exception: users/{uid}/redFlagAcknowledgments is kept. Those
+ * records show the user was advised to seek care before continuing past a
+ * red flag and are retained for liability purposes. Deleting the parent
+ * users doc does not delete the subcollection, and the records hold only
+ * the uid, the flags and the accepted disclaimer.
+ */
+export const deleteAccount = onCall(
+  { secrets: [stripeSecretKey] },
+  async (request): Promise<{ deleted: true }> => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Please sign in to continue.');
+    }
+
+    const uid = request.auth.uid;
+    const authAge = Date.now() / 1000 - request.auth.token.auth_time;
+    if (authAge > MAX_AUTH_AGE_SECONDS) {
+      throw new HttpsError(
+        'failed-precondition',
+        'For your security, please sign in again to delete your account.',
+      );
+    }
+
+    const db = getFirestore();
+
+    try {
+      const userRef = db.collection('users').doc(uid);
+      const stripeCustomerId = (await userRef.get()).get('stripeCustomerId');
+
+      // Stop billing before the account that owns the subscription disappears
+      if (typeof stripeCustomerId === 'string') {
+        await deleteStripeCustomer(stripeCustomerId);
+      }
+
+      const writer = db.bulkWriter();
+      for (const name of USER_DATA_COLLECTIONS) {
+        const snapshot = await db
+          .collection(name)
+          .where('userId', '==', uid)
+          .get();
+        snapshot.docs.forEach((doc) => writer.delete(doc.ref));
+      }
+      writer.delete(userRef);
+      await writer.close();
+
+      await getAuth().deleteUser(uid);
+      logger.info('Account deleted', { uid });
+
+      return { deleted: true };
+    } catch (error) {
+      logger.error('Delete account error', { uid, error });
+      throw new HttpsError(
+        'internal',
+        'Failed to delete your account. Please try again.',
+      );
+    }
+  },
+);
@@ -0,0 +1,145 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import type Stripe from 'stripe';
+import {
+  getInvoiceSubscriptionId,
+  mapFailedPayment,
+  mapStripeEvent,
+  SubscriptionUpdate,
+} from '../subscriptionEvents';
+
+const fixture = (name: string): Stripe.Event =>
+  JSON.parse(
+    readFileSync(
+      path.join(__dirname, '../../../fixtures/stripe', `${name}.json`),
+      'utf8',
+    ),
+  );
+
+// current_period_end / ended_at of the recorded annual subscription
+const PERIOD_END = new Date(1793136000 * 1000);
+
+describe('mapStripeEvent', () => {
+  it.each<[string, SubscriptionUpdate | null]>([
+    [
+      'customer.subscription.created',
+      {
+        uid: 'fixture-user',
+        stripeCustomerId: 'cus_TFixtureRecoverly',
+        subscriptionStatus: 'active',
+        subscriptionTier: 'annual',
+        subscriptionEndDate: PERIOD_END,
+      },
+    ],
+    [
+      'customer.subscription.updated',
+      {
+        uid: 'fixture-user',
+        stripeCustomerId: 'cus_TFixtureRecoverly',
+        subscriptionStatus: 'cancelled',
+        subscriptionTier: 'annual',
+        subscriptionEndDate: PERIOD_END,
+      },
+    ],
+    [
+      'customer.subscription.deleted',
+      {
+        uid: 'fixture-user',
+        stripeCustomerId: 'cus_TFixtureRecoverly',
+        subscriptionStatus: 'expired',
+        subscriptionTier: 'annual',
+        subscriptionEndDate: PERIOD_END,
+      },
+    ],
+    // Needs the invoice's subscription, see mapFailedPayment
+    ['invoice.payment_failed', null],
+  ])('maps the recorded %s event', (name, expected) => {
+    expect(mapStripeEvent(fixture(name))).toEqual(expected);
+  });
+
+  it('keeps access while a renewal payment is being retried', () => {
+    const updated = fixture('customer.subscription.updated');
+    const subscription = updated.data.object as Stripe.Subscription;
+    const pastDue = {
+      ...updated,
+      data: {
+        object: {
+          ...subscription,
+          status: 'past_due',
+          cancel_at_period_end: false,
+        },
+      },
+    } as Stripe.Event;
+
+    expect(mapStripeEvent(pastDue)?.subscriptionStatus).toBe('active');
+  });
+
+  it('falls back to the metadata tier without a recurring price', () => {
+    const created = fixture('customer.subscription.created');
+    const subscription = created.data.object as Stripe.Subscription;
+    const withoutPrice = {
+      ...created,
+      data: { object: { ...subscription, items: { data: [] } } },
+    } as unknown as Stripe.Event;
+
+    expect(mapStripeEvent(withoutPrice)).toMatchObject({
+      subscriptionTier: 'annual',
+      subscriptionEndDate: undefined,
+    });
+  });
+});
+
+describe('mapFailedPayment', () => {
+  const invoice = fixture('invoice.payment_failed').data
+    .object as Stripe.Invoice;
+  const subscription = fixture('customer.subscription.updated').data
+    .object as Stripe.Subscription;
+
+  it('finds the subscription the invoice bills', () => {
+    expect(getInvoiceSubscriptionId(invoice)).toBe('sub_1SFixtureRecoverly');
+    expect(getInvoiceSubscriptionId({ ...invoice, parent: null })).toBeNull();
+  });
+
+  it('keeps access while Stripe retries the payment', () => {
+    const pastDue = {
+      ...subscription,
+      status: 'past_due',
+      cancel_at_period_end: false,
+    } as Stripe.Subscription;
+
+    expect(mapFailedPayment(invoice, pastDue)).toEqual({
+      uid: 'fixture-user',
+      stripeCustomerId: 'cus_TFixtureRecoverly',
+      subscriptionStatus: 'active',
+      subscriptionTier: 'annual',
+      subscriptionEndDate: PERIOD_END,
+    });
+  });
+
+  it('ends access once Stripe gives up on the payment', () => {
+    const unpaid = { ...subscription, status: 'unpaid' } as Stripe.Subscription;
+
+    expect(mapFailedPayment(invoice, unpaid)?.subscriptionStatus).toBe(
+      'expired',
+    );
+  });
+
+  it("takes the uid from the invoice when the subscription doesn't have it", () => {
+    const withoutUid = {
+      ...subscription,
+      status: 'past_due',
+      metadata: {},
+    } as Stripe.Subscription;
+
+    expect(mapFailedPayment(invoice, withoutUid)?.uid).toBe('fixture-user');
+  });
+
+  it('ignores a failed first payment', () => {
+    const incomplete = {
+      ...subscription,
+      status: 'incomplete',
+    } as Stripe.Subscription;
+
+    expect(mapFailedPayment(invoice, incomplete)).toBeNull();
+  });
+});
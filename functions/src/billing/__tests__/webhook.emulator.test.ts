@@ -0,0 +1,165 @@
+/**
+ * applyEvent against the Firestore emulator, using the recorded Stripe
+ * fixtures. Run with `npm run test:emulator`, which wraps jest in
+ * `firebase emulators:exec`.
+ */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { deleteApp, getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { applyEvent } from '../webhook';
+
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+const mockRetrieveSubscription = jest.fn();
+jest.mock('../stripeConfig', () => ({
+  ...jest.requireActual('../stripeConfig'),
+  getStripe: () => ({
+    subscriptions: { retrieve: mockRetrieveSubscription },
+  }),
+}));
+
+const PROJECT_ID = 'demo-recoverly';
+const UID = 'fixture-user';
+
+const fixture = (name: string): Stripe.Event =>
+  JSON.parse(
+    readFileSync(
+      path.join(__dirname, '../../../fixtures/stripe', `${name}.json`),
+      'utf8',
+    ),
+  );
+
+const userRef = () => getFirestore().collection('users').doc(UID);
+const readUser = async () => (await userRef().get()).data();
+
+beforeAll(() => {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error('FIRESTORE_EMULATOR_HOST is not set, see test:emulator');
+  }
+  initializeApp({ projectId: PROJECT_ID });
+});
+
+beforeEach(async () => {
+  await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${PROJECT_ID}/databases/(default)/documents`,
+    { method: 'DELETE' },
+  );
+  await userRef().set({ uid: UID, subscriptionStatus: 'free' });
+});
+
+afterAll(async () => {
+  await Promise.all(getApps().map(deleteApp));
+});
+
+describe('applyEvent', () => {
+  it('applies a new subscription to the user it was checked out for', async () => {
+    const created = fixture('customer.subscription.created');
+
+    await applyEvent(created);
+
+    expect(await readUser()).toMatchObject({
+      stripeCustomerId: 'cus_TFixtureRecoverly',
+      subscriptionStatus: 'active',
+      subscriptionTier: 'annual',
+      subscriptionEndDate: Timestamp.fromMillis(1793136000 * 1000),
+      stripeEventCreated: created.created,
+    });
+    const processed = await getFirestore()
+      .collection('stripeEvents')
+      .doc(created.id)
+      .get();
+    expect(processed.data()).toMatchObject({
+      type: 'customer.subscription.created',
+      uid: UID,
+    });
+  });
+
+  it('finds the user by customer id when the subscription has no uid', async () => {
+    await userRef().update({ stripeCustomerId: 'cus_TFixtureRecoverly' });
+    const created = fixture('customer.subscription.created');
+    const subscription = created.data.object as Stripe.Subscription;
+
+    await applyEvent({
+      ...created,
+      data: { object: { ...subscription, metadata: {} } },
+    } as Stripe.Event);
+
+    expect((await readUser())?.subscriptionStatus).toBe('active');
+  });
+
+  it('does not recreate a deleted user', async () => {
+    await userRef().delete();
+
+    await applyEvent(fixture('customer.subscription.deleted'));
+
+    expect((await userRef().get()).exists).toBe(false);
+  });
+
+  it('does not let an older event delivered late overwrite newer state', async () => {
+    const deleted = fixture('customer.subscription.deleted');
+    const updated = fixture('customer.subscription.updated');
+    expect(updated.created).toBeLessThan(deleted.created);
+
+    await applyEvent(deleted);
+    await applyEvent(updated);
+
+    expect(await readUser()).toMatchObject({
+      subscriptionStatus: 'expired',
+      stripeEventCreated: deleted.created,
+    });
+    // Still marked processed so Stripe's retries are skipped too
+    const processed = await getFirestore()
+      .collection('stripeEvents')
+      .doc(updated.id)
+      .get();
+    expect(processed.exists).toBe(true);
+  });
+
+  it('applies events created in the same second in delivery order', async () => {
+    const updated = fixture('customer.subscription.updated');
+    const deleted = {
+      ...fixture('customer.subscription.deleted'),
+      created: updated.created,
+    };
+
+    await applyEvent(updated);
+    await applyEvent(deleted);
+
+    expect((await readUser())?.subscriptionStatus).toBe('expired');
+  });
+
+  it('applies a duplicate delivery only once', async () => {
+    const updated = fixture('customer.subscription.updated');
+    await applyEvent(updated);
+    await userRef().update({ subscriptionStatus: 'free' });
+
+    await applyEvent(updated);
+
+    expect((await readUser())?.subscriptionStatus).toBe('free');
+  });
+
+  it('applies the subscription state after a failed payment', async () => {
+    const subscription = fixture('customer.subscription.updated').data
+      .object as Stripe.Subscription;
+    mockRetrieveSubscription.mockResolvedValue({
+      ...subscription,
+      status: 'unpaid',
+    });
+    const failed = fixture('invoice.payment_failed');
+
+    await applyEvent(failed);
+
+    expect(mockRetrieveSubscription).toHaveBeenCalledWith(
+      'sub_1SFixtureRecoverly',
+    );
+    expect(await readUser()).toMatchObject({
+      subscriptionStatus: 'expired',
+      stripeEventCreated: failed.created,
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+import { stripeWebhook } from '../webhook';
+
+jest.mock('firebase-functions/v2/https', () => ({
+  onRequest: (_options: unknown, handler: unknown) => handler,
+}));
+jest.mock('firebase-functions/params', () => ({
+  defineSecret: (name: string) => ({
+    value: () =>
+      name === 'STRIPE_WEBHOOK_SECRET' ? 'whsec_test_secret' : 'sk_test_key',
+  }),
+  defineString: () => ({ value: () => '' }),
+}));
+jest.mock('firebase-functions/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+}));
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+const handler = stripeWebhook as unknown as (
+  req: unknown,
+  res: unknown,
+) => Promise<void>;
+
+const fixturePayload = (name: string): string =>
+  readFileSync(
+    path.join(__dirname, '../../../fixtures/stripe', `${name}.json`),
+    'utf8',
+  );
+
+const sign = (payload: string, secret = WEBHOOK_SECRET): string =>
+  new Stripe('sk_test_key').webhooks.generateTestHeaderString({
+    payload,
+    secret,
+  });
+
+const deliver = async (payload: string, signature?: string) => {
+  const res = {
+    status: jest.fn().mockReturnThis(),
+    send: jest.fn().mockReturnThis(),
+    json: jest.fn().mockReturnThis(),
+  };
+  await handler(
+    {
+      method: 'POST',
+      rawBody: Buffer.from(payload),
+      get: (header: string) =>
+        header === 'stripe-signature' ? signature : undefined,
+    },
+    res,
+  );
+  return res;
+};
+
+describe('stripeWebhook', () => {
+  const payload = fixturePayload('customer.subscription.updated');
+
+  it('rejects a delivery without a signature', async () => {
+    const res = await deliver(payload);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.send).toHaveBeenCalledWith('Missing Stripe signature');
+  });
+
+  it('rejects a payload signed with another secret', async () => {
+    const res = await deliver(payload, sign(payload, 'whsec_other_secret'));
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.send).toHaveBeenCalledWith('Invalid signature');
+  });
+
+  it('rejects a payload changed after it was signed', async () => {
+    const tampered = payload.replace(
+      '"cancel_at_period_end": true',
+      '"cancel_at_period_end": false',
+    );
+    expect(tampered).not.toBe(payload);
+
+    const res = await deliver(tampered, sign(payload));
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.send).toHaveBeenCalledWith('Invalid signature');
+  });
+
+  it('acknowledges a signed event it does not handle', async () => {
+    const customerCreated = JSON.stringify({
+      id: 'evt_test_customer_created',
+      object: 'event',
+      type: 'customer.created',
+      created: 1761600000,
+      data: { object: { id: 'cus_TFixtureRecoverly', object: 'customer' } },
+    });
+
+    const res = await deliver(customerCreated, sign(customerCreated));
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ received: true });
+  });
+});
@@ -0,0 +1,88 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  getPriceId,
+  getStripe,
+  stripeSecretKey,
+  SubscriptionTier,
+} from './stripeConfig';
+
+interface CheckoutSessionRequest {
+  tier: SubscriptionTier;
+  returnUrl: string;
+}
+
+interface CheckoutSessionResponse {
+  url: string;
+  // Expected end of the first billing period; the webhook writes the real one
+  subscriptionEndDate: string;
+}
+
+/**
+ * Callable: create a Stripe Checkout session for the signed-in user
+ */
+export const createCheckoutSession = onCall<CheckoutSessionRequest>(
+  { secrets: [stripeSecretKey] },
+  async (request): Promise<CheckoutSessionResponse> => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Please sign in to continue.');
+    }
+
+    const { tier, returnUrl } = request.data || {};
+    if (tier !== 'monthly' && tier !== 'annual') {
+      throw new HttpsError('invalid-argument', 'Unknown subscription plan.');
+    }
+    if (typeof returnUrl !== 'string' || !returnUrl) {
+      throw new HttpsError('invalid-argument', 'Missing return URL.');
+    }
+
+    const uid = request.auth.uid;
+    const stripe = getStripe();
+    const userRef = getFirestore().collection('users').doc(uid);
+
+    try {
+      // Reuse the Stripe customer so every subscription lands on one record
+      const profile = (await userRef.get()).data();
+      let customerId: string | undefined = profile?.stripeCustomerId;
+      if (!customerId) {
+        const customer = await stripe.customers.create({
+          email: request.auth.token.email,
+          metadata: { uid },
+        });
+        customerId = customer.id;
+        await userRef.set({ stripeCustomerId: customerId }, { merge: true });
+      }
+
+      const separator = returnUrl.includes('?') ? '&' : '?';
+      const session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        customer: customerId,
+        client_reference_id: uid,
+        line_items: [{ price: getPriceId(tier), quantity: 1 }],
+        subscription_data: { metadata: { uid, tier } },
+        success_url: `${returnUrl}${separator}status=success`,
+        cancel_url: `${returnUrl}${separator}status=cancelled`,
+      });
+
+      if (!session.url) {
+        throw new Error('Checkout session has no URL');
+      }
+
+      const periodEnd = new Date();
+      if (tier === 'annual') {
+        periodEnd.setFullYear(periodEnd.getFullYear() + 1);
+      } else {
+        periodEnd.setMonth(periodEnd.getMonth() + 1);
+      }
+
+      return { url: session.url, subscriptionEndDate: periodEnd.toISOString() };
+    } catch (error) {
+      logger.error('Create checkout session error', error);
+      throw new HttpsError(
+        'unavailable',
+        'Checkout is temporarily unavailable. Please try again.',
+      );
+    }
+  },
+);
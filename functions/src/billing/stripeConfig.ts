@@ -0,0 +1,20 @@
+import Stripe from 'stripe';
+import { defineSecret, defineString } from 'firebase-functions/params';
+
+export const stripeSecretKey = defineSecret('STRIPE_SECRET_KEY');
+
+// Stripe price ids for the two subscription tiers
+export const stripeMonthlyPriceId = defineString('STRIPE_PRICE_MONTHLY');
+export const stripeAnnualPriceId = defineString('STRIPE_PRICE_ANNUAL');
+
+export type SubscriptionTier = 'monthly' | 'annual';
+
+/**
+ * Stripe client for the current invocation (secrets are only readable at runtime)
+ */
+export const getStripe = (): Stripe => new Stripe(stripeSecretKey.value());
+
+export const getPriceId = (tier: SubscriptionTier): string =>
+  tier === 'annual'
+    ? stripeAnnualPriceId.value()
+    : stripeMonthlyPriceId.value();
@@ -0,0 +1,150 @@
+import type Stripe from 'stripe';
+import type { SubscriptionTier } from './stripeConfig';
+
+/**
+ * Maps Stripe webhook events onto the subscription fields of a users doc.
+ * Pure so recorded fixture payloads can be checked without Stripe or Firestore.
+ */
+
+export type SubscriptionStatus = 'free' | 'active' | 'cancelled' | 'expired';
+
+export interface SubscriptionUpdate {
+  // Set when the event says who the user is; otherwise found by customer id
+  uid: string | null;
+  stripeCustomerId: string;
+  subscriptionStatus: SubscriptionStatus;
+  subscriptionTier?: SubscriptionTier;
+  subscriptionEndDate?: Date;
+}
+
+export const HANDLED_EVENT_TYPES = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'invoice.payment_failed',
+] as const;
+
+const toId = (value: string | { id: string }): string =>
+  typeof value === 'string' ? value : value.id;
+
+const getTier = (
+  subscription: Stripe.Subscription,
+): SubscriptionTier | undefined => {
+  const interval = subscription.items.data[0]?.price.recurring?.interval;
+  if (interval === 'year') return 'annual';
+  if (interval === 'month') return 'monthly';
+
+  const tier = subscription.metadata?.tier;
+  return tier === 'annual' || tier === 'monthly' ? tier : undefined;
+};
+
+const getPeriodEnd = (subscription: Stripe.Subscription): Date | undefined => {
+  const periodEnd = subscription.items.data[0]?.current_period_end;
+  return periodEnd ? new Date(periodEnd * 1000) : undefined;
+};
+
+/**
+ * Stripe subscription status -> app status. A subscription set to cancel at
+ * period end is 'cancelled' with its end date, which the app treats as grace.
+ * A past_due subscription keeps access while Stripe retries the payment.
+ * Returns null while the first payment is still pending.
+ */
+const getStatus = (
+  subscription: Stripe.Subscription,
+): SubscriptionStatus | null => {
+  switch (subscription.status) {
+    case 'active':
+    case 'trialing':
+    case 'past_due':
+      return subscription.cancel_at_period_end ? 'cancelled' : 'active';
+    case 'unpaid':
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'expired';
+    default:
+      return null;
+  }
+};
+
+const fromSubscription = (
+  subscription: Stripe.Subscription,
+): SubscriptionUpdate | null => {
+  const status = getStatus(subscription);
+  if (!status) return null;
+
+  return {
+    uid: subscription.metadata?.uid || null,
+    stripeCustomerId: toId(subscription.customer),
+    subscriptionStatus: status,
+    subscriptionTier: getTier(subscription),
+    subscriptionEndDate: getPeriodEnd(subscription),
+  };
+};
+
+/**
+ * Stripe doesn't deliver events in order, so one created before the last
+ * event applied to the user (`created` is in seconds) must not overwrite it.
+ * Events from the same second are still applied.
+ */
+export const isStaleEvent = (
+  eventCreated: number,
+  lastEventCreated: number | undefined,
+): boolean => lastEventCreated !== undefined && eventCreated < lastEventCreated;
+
+/**
+ * The subscription an invoice bills, or null for a one-off invoice
+ */
+export const getInvoiceSubscriptionId = (
+  invoice: Stripe.Invoice,
+): string | null => {
+  const subscription = invoice.parent?.subscription_details?.subscription;
+  return subscription ? toId(subscription) : null;
+};
+
+/**
+ * A failed invoice payment, applied as the current state of the subscription
+ * it bills (fetched by the caller): past_due keeps access while Stripe
+ * retries, unpaid or canceled ends it.
+ */
+export const mapFailedPayment = (
+  invoice: Stripe.Invoice,
+  subscription: Stripe.Subscription,
+): SubscriptionUpdate | null => {
+  const update = fromSubscription(subscription);
+  if (!update) return null;
+
+  return {
+    ...update,
+    uid:
+      update.uid || invoice.parent?.subscription_details?.metadata?.uid || null,
+  };
+};
+
+/**
+ * Translate a verified Stripe event into a users doc update, or null when the
+ * event carries nothing to apply. invoice.payment_failed needs the invoice's
+ * subscription, so it goes through mapFailedPayment instead.
+ */
+export const mapStripeEvent = (
+  event: Stripe.Event,
+): SubscriptionUpdate | null => {
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+      return fromSubscription(event.data.object);
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object;
+      return {
+        uid: subscription.metadata?.uid || null,
+        stripeCustomerId: toId(subscription.customer),
+        subscriptionStatus: 'expired',
+        subscriptionTier: getTier(subscription),
+        subscriptionEndDate: subscription.ended_at
+          ? new Date(subscription.ended_at * 1000)
+          : getPeriodEnd(subscription),
+      };
+    }
+    default:
+      return null;
+  }
+};
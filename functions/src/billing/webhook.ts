@@ -0,0 +1,168 @@
+import { onRequest } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import { FieldValue, getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type Stripe from 'stripe';
+import { getStripe, stripeSecretKey } from './stripeConfig';
+import {
+  getInvoiceSubscriptionId,
+  HANDLED_EVENT_TYPES,
+  isStaleEvent,
+  mapFailedPayment,
+  mapStripeEvent,
+  SubscriptionUpdate,
+} from './subscriptionEvents';
+
+const stripeWebhookSecret = defineSecret('STRIPE_WEBHOOK_SECRET');
+
+// Processed event ids, so Stripe's retries are applied at most once
+const PROCESSED_EVENTS_COLLECTION = 'stripeEvents';
+
+const isHandledEvent = (type: string): boolean =>
+  (HANDLED_EVENT_TYPES as readonly string[]).includes(type);
+
+/**
+ * The users doc update for an event. A failed payment is applied as the
+ * current state of the invoice's subscription, fetched from Stripe.
+ */
+const toUpdate = async (
+  event: Stripe.Event,
+): Promise<SubscriptionUpdate | null> => {
+  if (event.type !== 'invoice.payment_failed') return mapStripeEvent(event);
+
+  const invoice = event.data.object;
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!subscriptionId) return null;
+
+  const subscription = await getStripe().subscriptions.retrieve(subscriptionId);
+  return mapFailedPayment(invoice, subscription);
+};
+
+/**
+ * Resolve the user an update belongs to: the uid stamped on the subscription
+ * at checkout, falling back to the stored Stripe customer id
+ */
+const findUserId = async (
+  update: SubscriptionUpdate,
+): Promise<string | null> => {
+  if (update.uid) return update.uid;
+
+  const snapshot = await getFirestore()
+    .collection('users')
+    .where('stripeCustomerId', '==', update.stripeCustomerId)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+};
+
+/**
+ * Apply one event to the users doc and record its id in the same transaction.
+ * The users doc keeps the `created` time of the last event applied to it, and
+ * older events that arrive late are recorded but not applied.
+ */
+export const applyEvent = async (event: Stripe.Event): Promise<void> => {
+  const db = getFirestore();
+  const eventRef = db.collection(PROCESSED_EVENTS_COLLECTION).doc(event.id);
+
+  const update = await toUpdate(event);
+  const uid = update ? await findUserId(update) : null;
+  if (update && !uid) {
+    logger.warn('Stripe event for unknown customer', {
+      eventId: event.id,
+      customer: update.stripeCustomerId,
+    });
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const processed = await transaction.get(eventRef);
+    if (processed.exists) {
+      logger.info('Skipping duplicate Stripe event', { eventId: event.id });
+      return;
+    }
+
+    const userRef = update && uid ? db.collection('users').doc(uid) : null;
+    const user = userRef ? await transaction.get(userRef) : null;
+
+    // Deleting an account cancels its subscriptions, and the resulting
+    // events must not bring the deleted users doc back
+    if (update && userRef && !user?.exists) {
+      logger.info('Skipping Stripe event for deleted user', {
+        eventId: event.id,
+        uid,
+      });
+    } else if (
+      update &&
+      userRef &&
+      isStaleEvent(event.created, user?.get('stripeEventCreated'))
+    ) {
+      logger.info('Skipping stale Stripe event', {
+        eventId: event.id,
+        uid,
+      });
+    } else if (update && userRef) {
+      transaction.update(userRef, {
+        stripeEventCreated: event.created,
+        stripeCustomerId: update.stripeCustomerId,
+        subscriptionStatus: update.subscriptionStatus,
+        ...(update.subscriptionTier && {
+          subscriptionTier: update.subscriptionTier,
+        }),
+        ...(update.subscriptionEndDate && {
+          subscriptionEndDate: Timestamp.fromDate(update.subscriptionEndDate),
+        }),
+      });
+    }
+
+    transaction.set(eventRef, {
+      type: event.type,
+      uid,
+      processedAt: FieldValue.serverTimestamp(),
+    });
+  });
+};
+
+/**
+ * HTTP: Stripe webhook endpoint keeping users subscription fields in sync
+ */
+export const stripeWebhook = onRequest(
+  { secrets: [stripeSecretKey, stripeWebhookSecret] },
+  async (req, res) => {
+    if (req.method !== 'POST') {
+      res.status(405).send('Method Not Allowed');
+      return;
+    }
+
+    const signature = req.get('stripe-signature');
+    if (!signature) {
+      res.status(400).send('Missing Stripe signature');
+      return;
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = getStripe().webhooks.constructEvent(
+        req.rawBody,
+        signature,
+        stripeWebhookSecret.value(),
+      );
+    } catch (error) {
+      logger.warn('Invalid Stripe webhook signature', error);
+      res.status(400).send('Invalid signature');
+      return;
+    }
+
+    if (!isHandledEvent(event.type)) {
+      res.status(200).json({ received: true });
+      return;
+    }
+
+    try {
+      await applyEvent(event);
+      res.status(200).json({ received: true });
+    } catch (error) {
+      // Non-2xx makes Stripe retry; the event id guard keeps that safe
+      logger.error('Stripe webhook error', { eventId: event.id, error });
+      res.status(500).send('Webhook handler failed');
+    }
+  },
+);
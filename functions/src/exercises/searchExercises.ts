@@ -0,0 +1,77 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import {
+  CatalogExercise,
+  ExerciseSearchRequest,
+  ExerciseSearchResponse,
+} from '../types';
+
+const rapidApiKey = defineSecret('RAPIDAPI_KEY');
+
+const EXERCISEDB_HOST = 'exercisedb.p.rapidapi.com';
+const MAX_NAME_LENGTH = 80;
+const MAX_RESULTS = 10;
+
+interface ExerciseDbExercise {
+  id: string;
+  name: string;
+  bodyPart: string;
+  target: string;
+  gifUrl?: string;
+  instructions?: string[];
+}
+
+const toCatalogExercise = (exercise: ExerciseDbExercise): CatalogExercise => ({
+  id: `exercisedb-${exercise.id}`,
+  name: exercise.name,
+  bodyParts: [exercise.bodyPart, exercise.target].filter(Boolean),
+  instructions: exercise.instructions ?? [],
+  exerciseDbId: exercise.id,
+  gifUrl: exercise.gifUrl,
+});
+
+/**
+ * Callable: ExerciseDB entries whose name contains the search term. Runs
+ * server-side so the RapidAPI key never ships in the app; ranking happens on
+ * the client.
+ */
+export const searchExercises = onCall<ExerciseSearchRequest>(
+  { secrets: [rapidApiKey] },
+  async (request): Promise<ExerciseSearchResponse> => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Please sign in to continue.');
+    }
+
+    const name = request.data?.name?.trim().toLowerCase();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new HttpsError('invalid-argument', 'Invalid exercise name.');
+    }
+
+    try {
+      const response = await fetch(
+        `https://${EXERCISEDB_HOST}/exercises/name/${encodeURIComponent(name)}?limit=${MAX_RESULTS}`,
+        {
+          headers: {
+            'X-RapidAPI-Key': rapidApiKey.value(),
+            'X-RapidAPI-Host': EXERCISEDB_HOST,
+          },
+        },
+      );
+      if (!response.ok) {
+        throw new Error(`ExerciseDB responded ${response.status}`);
+      }
+
+      const exercises = (await response.json()) as ExerciseDbExercise[];
+      return {
+        exercises: exercises.slice(0, MAX_RESULTS).map(toCatalogExercise),
+      };
+    } catch (error) {
+      logger.error('Exercise search error', error);
+      throw new HttpsError(
+        'unavailable',
+        'Exercise library temporarily unavailable.',
+      );
+    }
+  },
+);
@@ -0,0 +1,9 @@
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { generateRecoveryPlan } from './intake';
+export { createCheckoutSession } from './billing/checkout';
+export { stripeWebhook } from './billing/webhook';
+export { searchExercises } from './exercises/searchExercises';
+export { deleteAccount } from './account/deleteAccount';
@@ -0,0 +1,66 @@
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineSecret } from 'firebase-functions/params';
+import * as logger from 'firebase-functions/logger';
+import { IntakeMessage, IntakeRequest, IntakeResponse } from '../types';
+import { createOpenAIModel } from './openaiModel';
+
+const openaiApiKey = defineSecret('OPENAI_API_KEY');
+
+// Keeps a single runaway conversation from burning tokens
+const MAX_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 4000;
+
+const CLIENT_ROLES: readonly string[] = ['user', 'assistant'];
+
+/**
+ * Validate the conversation sent by the client. Only user and assistant
+ * turns are accepted, so a client can't add its own system prompt, and each
+ * is copied down to its role and content.
+ */
+const parseMessages = (messages: unknown): IntakeMessage[] => {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new HttpsError('invalid-argument', 'Conversation is empty.');
+  }
+  if (messages.length > MAX_MESSAGES) {
+    throw new HttpsError('invalid-argument', 'Conversation is too long.');
+  }
+
+  return messages.map((message) => {
+    if (
+      !message ||
+      !CLIENT_ROLES.includes(message.role) ||
+      typeof message.content !== 'string'
+    ) {
+      throw new HttpsError('invalid-argument', 'Invalid conversation message.');
+    }
+    if (message.content.length > MAX_MESSAGE_LENGTH) {
+      throw new HttpsError('invalid-argument', 'Message is too long.');
+    }
+    return { role: message.role, content: message.content };
+  });
+};
+
+/**
+ * Callable: next step of the intake conversation (a question or a protocol)
+ */
+export const generateRecoveryPlan = onCall<IntakeRequest>(
+  { secrets: [openaiApiKey] },
+  async (request): Promise<IntakeResponse> => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Please sign in to continue.');
+    }
+
+    const messages = parseMessages(request.data?.messages);
+
+    try {
+      const model = createOpenAIModel(openaiApiKey.value());
+      return await model.respond(messages);
+    } catch (error) {
+      logger.error('Intake model error', error);
+      throw new HttpsError(
+        'unavailable',
+        'Service temporarily unavailable. Please try again.',
+      );
+    }
+  },
+);
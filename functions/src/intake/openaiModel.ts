@@ -0,0 +1,120 @@
+import OpenAI from 'openai';
+import {
+  IntakeMessage,
+  IntakeModel,
+  IntakeResponse,
+  ProtocolExercise,
+} from '../types';
+
+const MODEL = 'gpt-4o-mini';
+
+const SYSTEM_PROMPT = `
+You are Recoverly AI, a wellness guidance assistant for minor movement issues.
+
+CONVERSATION:
+- Ask 2-4 short clarifying questions, one at a time, before recommending anything
+  (duration, what makes it better/worse, recent injuries, pain level 0-10).
+- When you have enough information, produce the protocol.
+
+CRITICAL RULES:
+1. Only provide guidance for MILD, NON-ACUTE issues
+2. Recommend 4-6 BASIC stretches/mobility exercises only
+3. Keep it SIMPLE - bodyweight only, no equipment
+4. If user describes severe pain (8+/10), trauma, numbness, or persistent issues -> set shouldReferOut: true
+5. Always include: "This is general wellness guidance, not medical advice"
+6. Sets/reps should be conservative: 2 sets, 10-15 reps, 3-4x per week
+7. Duration: 2 weeks to start, then reassess
+
+RED FLAGS (list each one you detect in assessment.redFlags):
+- Severe pain (8-10/10)
+- Numbness, tingling, weakness
+- Recent trauma or injury, pain after accident/fall
+- Fever with pain
+- Bowel/bladder changes
+- Progressive worsening
+
+RESPONSE FORMAT (JSON only), either a question:
+{ "type": "question", "message": "string", "options": ["optional quick replies"] }
+
+or a protocol:
+{
+  "type": "protocol",
+  "message": "Based on your description, here's what I recommend: ...",
+  "assessment": {
+    "bodyRegion": "snake_case region, e.g. left_knee, lower_back",
+    "primaryLimitation": "mobility" | "strength" | "stability",
+    "symptomType": "snake_case, e.g. dull_ache, sharp_pain, stiffness",
+    "severity": "mild" | "moderate" | "severe",
+    "redFlags": ["string"],
+    "shouldReferOut": boolean,
+    "referralReason": "string if referring out"
+  },
+  "protocol": {
+    "protocolName": "descriptive name",
+    "description": "brief explanation",
+    "targetDurationWeeks": 2,
+    "frequency": "3-4 times per week",
+    "exercises": [
+      { "name": "Cat-Cow Stretch", "description": "brief how-to", "sets": 2, "reps": "10-12", "notes": "Move slowly" }
+    ],
+    "safetyNotes": ["specific warnings"],
+    "progressionNotes": "when to progress or stop",
+    "disclaimer": "This is general wellness guidance, not medical advice..."
+  }
+}
+`;
+
+/**
+ * Intake model backed by the OpenAI chat completions API
+ */
+export const createOpenAIModel = (apiKey: string): IntakeModel => {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    async respond(messages: IntakeMessage[]): Promise<IntakeResponse> {
+      const completion = await openai.chat.completions.create({
+        model: MODEL,
+        messages: [{ role: 'system', content: SYSTEM_PROMPT }, ...messages],
+        response_format: { type: 'json_object' },
+      });
+
+      const content = completion.choices[0]?.message.content;
+      if (!content) {
+        throw new Error('Empty response from model');
+      }
+
+      return normalizeResponse(JSON.parse(content));
+    },
+  };
+};
+
+/**
+ * Give model exercises stable ids and display order
+ */
+const normalizeResponse = (raw: IntakeResponse): IntakeResponse => {
+  if (raw.type !== 'protocol') {
+    return raw;
+  }
+
+  const exercises: ProtocolExercise[] = (raw.protocol.exercises || []).map(
+    (exercise, index) => ({
+      ...exercise,
+      id: `exercise-${index + 1}`,
+      notes: exercise.notes || '',
+      order: index,
+    }),
+  );
+
+  return {
+    ...raw,
+    assessment: {
+      ...raw.assessment,
+      redFlags: raw.assessment.redFlags || [],
+    },
+    protocol: {
+      ...raw.protocol,
+      exercises,
+      safetyNotes: raw.protocol.safetyNotes || [],
+    },
+  };
+};
@@ -0,0 +1,84 @@
+/**
+ * Shared types for Cloud Functions
+ * Mirrors the client models in src/services so payloads line up on both sides
+ */
+
+export interface IntakeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface IntakeRequest {
+  messages: IntakeMessage[];
+}
+
+export interface IntakeAssessment {
+  bodyRegion: string;
+  primaryLimitation: string;
+  symptomType: string;
+  severity: 'mild' | 'moderate' | 'severe';
+  redFlags: string[];
+  shouldReferOut: boolean;
+  referralReason?: string;
+}
+
+export interface ProtocolExercise {
+  id: string;
+  name: string;
+  description: string;
+  sets: number;
+  reps: string;
+  notes: string;
+  order: number;
+}
+
+export interface ProtocolDraft {
+  protocolName: string;
+  description: string;
+  targetDurationWeeks: number;
+  frequency: string;
+  exercises: ProtocolExercise[];
+  safetyNotes: string[];
+  progressionNotes: string;
+  disclaimer: string;
+}
+
+export type IntakeResponse =
+  | {
+      type: 'question';
+      message: string;
+      options?: string[];
+    }
+  | {
+      type: 'protocol';
+      message: string;
+      assessment: IntakeAssessment;
+      protocol: ProtocolDraft;
+    };
+
+/**
+ * Anything that can turn an intake conversation into the next response
+ */
+export interface IntakeModel {
+  respond(messages: IntakeMessage[]): Promise<IntakeResponse>;
+}
+
+export interface ExerciseSearchRequest {
+  name: string;
+}
+
+/**
+ * An ExerciseDB entry in the shape of the app's exercise catalogue
+ */
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  bodyParts: string[];
+  instructions: string[];
+  exerciseDbId: string;
+  gifUrl?: string;
+}
+
+export interface ExerciseSearchResponse {
+  exercises: CatalogExercise[];
+}
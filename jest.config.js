@@ -0,0 +1,12 @@
+module.exports = {
+  preset: 'jest-expo',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '<rootDir>/functions/',
+    // Needs the Firestore emulator, see test:rules
+    '<rootDir>/tests/rules/',
+  ],
+};
@@ -0,0 +1,6 @@
+// Firestore rules tests, run against the emulator by `npm run test:rules`
+module.exports = {
+  preset: 'jest-expo',
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/rules/**/*.test.ts'],
+};
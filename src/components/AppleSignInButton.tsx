@@ -0,0 +1,41 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { IconButton } from 'react-native-paper';
+
+interface AppleSignInButtonProps {
+  onPress: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Round Apple button for the auth screens, matching GoogleSignInButton. Only
+ * render it when isAppleSignInSupported() is true.
+ */
+export default function AppleSignInButton({
+  onPress,
+  disabled,
+}: AppleSignInButtonProps) {
+  return (
+    <TouchableOpacity
+      style={styles.socialButton}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityLabel="Sign in with Apple"
+    >
+      <IconButton icon="apple" size={24} iconColor="#FFFFFF" />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  socialButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#38383A',
+  },
+});
@@ -0,0 +1,119 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import { useFocusEffect } from 'expo-router';
+import { Condition } from '@/services/conditionService';
+import { getPlan, getPlanDay, RehabPlan } from '@/services/planService';
+import { getSessionLogsForPlan, SessionLog } from '@/services/sessionService';
+import { getDirectionArrow, getPainDelta } from '@/utils/recoveryAnalytics';
+
+interface ConditionCardProps {
+  condition: Condition;
+  onPress: () => void;
+}
+
+/**
+ * Dashboard summary of one condition: plan day, sessions and pain trend
+ */
+export default function ConditionCard({
+  condition,
+  onPress,
+}: ConditionCardProps) {
+  const [plan, setPlan] = useState<RehabPlan | null>(null);
+  const [logs, setLogs] = useState<SessionLog[]>([]);
+
+  // Reload on focus so a session just logged shows up on return
+  useFocusEffect(
+    useCallback(() => {
+      const { activePlanId, userId } = condition;
+      if (!activePlanId) return;
+
+      let cancelled = false;
+      Promise.all([
+        getPlan(activePlanId),
+        getSessionLogsForPlan(userId, activePlanId),
+      ])
+        .then(([loadedPlan, loadedLogs]) => {
+          if (cancelled) return;
+          setPlan(loadedPlan);
+          setLogs(loadedLogs);
+        })
+        // Keep showing the last loaded summary rather than clearing the card
+        .catch((err) => console.error('Load condition card error:', err));
+
+      return () => {
+        cancelled = true;
+      };
+    }, [condition.activePlanId, condition.userId]),
+  );
+
+  const planDay =
+    plan?.startDate && getPlanDay(plan.startDate, plan.targetDurationWeeks);
+
+  const painDelta = getPainDelta(logs);
+
+  return (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={onPress}
+      accessibilityRole="button"
+    >
+      <Text variant="titleMedium" style={styles.title}>
+        {condition.bodyRegion.replace(/_/g, ' ').toUpperCase()}
+      </Text>
+
+      {planDay ? (
+        <Text variant="bodyMedium" style={styles.meta}>
+          Day {planDay.day} of {planDay.totalDays}
+        </Text>
+      ) : null}
+
+      <Text variant="bodyMedium" style={styles.meta}>
+        ⭐ {logs.length} {logs.length === 1 ? 'session' : 'sessions'}
+      </Text>
+
+      {painDelta ? (
+        <Text variant="bodyMedium" style={styles.pain}>
+          Pain: {painDelta.first} → {painDelta.latest}{' '}
+          <Text style={styles[painDelta.direction]}>
+            {getDirectionArrow(painDelta.direction)}
+          </Text>
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#1C1C1E',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+  },
+  title: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    marginBottom: 8,
+  },
+  meta: {
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  pain: {
+    color: '#FFFFFF',
+    marginTop: 4,
+  },
+  improving: {
+    color: '#66BB6A',
+    fontWeight: '700',
+  },
+  worsening: {
+    color: '#FF453A',
+    fontWeight: '700',
+  },
+  unchanged: {
+    color: '#8E8E93',
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,57 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { IconButton } from 'react-native-paper';
+import { useGoogleIdToken } from '@/hooks/useGoogleIdToken';
+
+interface GoogleSignInButtonProps {
+  // Called with the Google ID token; not called if the user cancels
+  onIdToken: (idToken: string) => Promise<void>;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Round Google button for the auth screens. Only render it when
+ * isGoogleSignInConfigured() is true.
+ */
+export default function GoogleSignInButton({
+  onIdToken,
+  onError,
+  disabled,
+}: GoogleSignInButtonProps) {
+  const { ready, getIdToken } = useGoogleIdToken();
+
+  const handlePress = async () => {
+    try {
+      const idToken = await getIdToken();
+      if (idToken) {
+        await onIdToken(idToken);
+      }
+    } catch (error: any) {
+      onError(error.message);
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={styles.socialButton}
+      onPress={handlePress}
+      disabled={disabled || !ready}
+    >
+      <IconButton icon="google" size={24} iconColor="#FFFFFF" />
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  socialButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#38383A',
+  },
+});
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Text } from 'react-native-paper';
+import Svg, { Circle, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import { PainSample } from '@/utils/recoveryAnalytics';
+
+interface PainChartProps {
+  logs: PainSample[];
+  height?: number;
+}
+
+const MAX_PAIN = 10;
+const GRID_SCORES = [0, 5, 10];
+const PADDING = { top: 12, right: 12, bottom: 12, left: 28 };
+
+const BEFORE_COLOR = '#66BB6A';
+const AFTER_COLOR = '#8E8E93';
+
+/**
+ * Line chart of pain before and after each session, on a fixed 0-10 scale
+ */
+export default function PainChart({ logs, height = 180 }: PainChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (logs.length === 0) {
+    return (
+      <View style={[styles.empty, { height }]}>
+        <Text variant="bodyMedium" style={styles.emptyText}>
+          Your pain trend will appear after your first session.
+        </Text>
+      </View>
+    );
+  }
+
+  const plotWidth = Math.max(0, width - PADDING.left - PADDING.right);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left +
+    (logs.length === 1
+      ? plotWidth / 2
+      : (plotWidth * index) / (logs.length - 1));
+  const y = (score: number) =>
+    PADDING.top + plotHeight - (plotHeight * score) / MAX_PAIN;
+
+  const toPoints = (scores: number[]) =>
+    scores.map((score, index) => `${x(index)},${y(score)}`).join(' ');
+
+  const before = logs.map((log) => log.prePainScore);
+  const after = logs.map((log) => log.postPainScore);
+
+  return (
+    <View>
+      <View onLayout={handleLayout} style={{ height }}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {GRID_SCORES.map((score) => (
+              <React.Fragment key={score}>
+                <Line
+                  x1={PADDING.left}
+                  x2={width - PADDING.right}
+                  y1={y(score)}
+                  y2={y(score)}
+                  stroke="#2C2C2E"
+                  strokeWidth={1}
+                />
+                <SvgText
+                  x={PADDING.left - 8}
+                  y={y(score) + 4}
+                  fontSize={11}
+                  fill="#8E8E93"
+                  textAnchor="end"
+                >
+                  {score}
+                </SvgText>
+              </React.Fragment>
+            ))}
+
+            <Polyline
+              points={toPoints(after)}
+              fill="none"
+              stroke={AFTER_COLOR}
+              strokeWidth={2}
+              strokeDasharray="4 4"
+            />
+            <Polyline
+              points={toPoints(before)}
+              fill="none"
+              stroke={BEFORE_COLOR}
+              strokeWidth={3}
+            />
+            {before.map((score, index) => (
+              <Circle
+                key={index}
+                cx={x(index)}
+                cy={y(score)}
+                r={4}
+                fill={BEFORE_COLOR}
+              />
+            ))}
+          </Svg>
+        )}
+      </View>
+
+      <View style={styles.legend}>
+        <View
+          style={[styles.legendSwatch, { backgroundColor: BEFORE_COLOR }]}
+        />
+        <Text variant="bodySmall" style={styles.legendText}>
+          Before session
+        </Text>
+        <View style={[styles.legendSwatch, { backgroundColor: AFTER_COLOR }]} />
+        <Text variant="bodySmall" style={styles.legendText}>
+          After session
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  empty: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 3,
+    borderRadius: 2,
+    marginRight: 6,
+  },
+  legendText: {
+    color: '#8E8E93',
+    marginRight: 16,
+  },
+});
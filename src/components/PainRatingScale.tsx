@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+
+interface PainRatingScaleProps {
+  value: number | null;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const SCORES = Array.from({ length: 11 }, (_, score) => score);
+
+/**
+ * 0-10 pain picker used for session and check-in ratings
+ */
+export default function PainRatingScale({
+  value,
+  onChange,
+  disabled = false,
+}: PainRatingScaleProps) {
+  return (
+    <View>
+      <View style={styles.scale}>
+        {SCORES.map((score) => {
+          const selected = value === score;
+          return (
+            <TouchableOpacity
+              key={score}
+              style={[styles.score, selected && styles.scoreSelected]}
+              onPress={() => onChange(score)}
+              disabled={disabled}
+              accessibilityRole="button"
+              accessibilityLabel={`Pain ${score} out of 10`}
+              accessibilityState={{ selected }}
+            >
+              <Text
+                style={[styles.scoreText, selected && styles.scoreTextSelected]}
+              >
+                {score}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.labels}>
+        <Text variant="bodySmall" style={styles.label}>
+          No pain
+        </Text>
+        <Text variant="bodySmall" style={styles.current}>
+          {value === null ? 'Tap to rate' : `Current: ${value}`}
+        </Text>
+        <Text variant="bodySmall" style={styles.label}>
+          Worst pain
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scale: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  score: {
+    width: 28,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#1C1C1E',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#38383A',
+  },
+  scoreSelected: {
+    backgroundColor: '#66BB6A',
+    borderColor: '#66BB6A',
+  },
+  scoreText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  scoreTextSelected: {
+    color: '#000000',
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  label: {
+    color: '#8E8E93',
+  },
+  current: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
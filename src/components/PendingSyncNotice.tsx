@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, ActivityIndicator } from 'react-native-paper';
+import { useOutboxStore } from '@/stores/outboxStore';
+
+/**
+ * Shows how many offline entries are still waiting to sync, and how many the
+ * server refused. Renders nothing once everything has been sent.
+ */
+export default function PendingSyncNotice() {
+  const pendingCount = useOutboxStore((state) => state.pendingIds.length);
+  const rejectedCount = useOutboxStore((state) => state.rejectedCount);
+  const syncing = useOutboxStore((state) => state.syncing);
+
+  if (pendingCount === 0 && rejectedCount === 0) return null;
+
+  return (
+    <>
+      {pendingCount > 0 ? (
+        <View style={styles.container}>
+          {syncing ? (
+            <ActivityIndicator size={14} color="#FF9F0A" style={styles.icon} />
+          ) : (
+            <Text style={styles.icon}>☁️</Text>
+          )}
+          <Text variant="bodyMedium" style={styles.text}>
+            {pendingCount} {pendingCount === 1 ? 'entry' : 'entries'} waiting to
+            sync
+          </Text>
+        </View>
+      ) : null}
+      {rejectedCount > 0 ? (
+        <View style={[styles.container, styles.rejectedContainer]}>
+          <Text style={styles.icon}>⚠️</Text>
+          <Text variant="bodyMedium" style={styles.rejectedText}>
+            {rejectedCount} offline {rejectedCount === 1 ? 'entry' : 'entries'}{' '}
+            couldn't be saved
+          </Text>
+        </View>
+      ) : null}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#3D2C1E',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    marginBottom: 16,
+  },
+  icon: {
+    marginRight: 8,
+  },
+  text: {
+    color: '#FFD59E',
+    flexShrink: 1,
+  },
+  rejectedContainer: {
+    backgroundColor: '#3D1F1D',
+  },
+  rejectedText: {
+    color: '#FFB4AB',
+    flexShrink: 1,
+  },
+});
@@ -0,0 +1,310 @@
+import type { CatalogExercise } from '@/utils/exerciseMatcher';
+
+/**
+ * Bundled catalogue of common bodyweight mobility exercises, used when the
+ * remote exercise library is unreachable or has no match. Text only, so it
+ * works fully offline.
+ */
+export const BUNDLED_EXERCISES: CatalogExercise[] = [
+  {
+    id: 'cat-cow',
+    name: 'Cat-Cow Stretch',
+    aliases: ['Cat Camel', 'Cat Cow'],
+    bodyParts: ['back', 'neck'],
+    instructions: [
+      'Start on hands and knees, wrists under shoulders and knees under hips.',
+      'Breathe in as you let your belly drop and lift your chest and tailbone.',
+      'Breathe out as you round your back toward the ceiling and tuck your chin.',
+      'Move slowly between the two positions, staying in a comfortable range.',
+    ],
+  },
+  {
+    id: 'childs-pose',
+    name: "Child's Pose",
+    aliases: ['Child Pose'],
+    bodyParts: ['back', 'hip', 'shoulder'],
+    instructions: [
+      'Kneel with your big toes together and knees hip-width apart.',
+      'Sit your hips back toward your heels.',
+      'Walk your hands forward and rest your forehead on the floor or a pillow.',
+      'Breathe slowly and let your back relax.',
+    ],
+  },
+  {
+    id: 'pelvic-tilt',
+    name: 'Pelvic Tilts',
+    bodyParts: ['back', 'core'],
+    instructions: [
+      'Lie on your back with knees bent and feet flat on the floor.',
+      'Tighten your stomach and gently press your lower back into the floor.',
+      'Hold for a few seconds, then relax back to neutral.',
+    ],
+  },
+  {
+    id: 'glute-bridge',
+    name: 'Glute Bridges',
+    aliases: ['Bridge', 'Hip Bridge'],
+    bodyParts: ['back', 'hip', 'knee'],
+    easierVariantId: 'pelvic-tilt',
+    instructions: [
+      'Lie on your back with knees bent and feet flat, hip-width apart.',
+      'Squeeze your glutes and lift your hips until your body forms a straight line from shoulders to knees.',
+      'Pause at the top without arching your lower back.',
+      'Lower slowly back to the floor.',
+    ],
+  },
+  {
+    id: 'bird-dog',
+    name: 'Bird Dog',
+    bodyParts: ['back', 'core'],
+    easierVariantId: 'pelvic-tilt',
+    instructions: [
+      'Start on hands and knees with a flat back.',
+      'Reach one arm forward and the opposite leg back until both are in line with your body.',
+      'Keep your hips level and hold briefly.',
+      'Return to the start and switch sides.',
+    ],
+  },
+  {
+    id: 'dead-bug',
+    name: 'Dead Bugs',
+    bodyParts: ['core', 'back'],
+    easierVariantId: 'pelvic-tilt',
+    instructions: [
+      'Lie on your back with arms pointing to the ceiling and knees bent at 90 degrees.',
+      'Keep your lower back pressed into the floor.',
+      'Slowly lower one arm overhead and the opposite leg toward the floor.',
+      'Return to the start and switch sides.',
+    ],
+  },
+  {
+    id: 'knee-to-chest',
+    name: 'Knee to Chest Stretch',
+    aliases: ['Single Knee to Chest'],
+    bodyParts: ['back', 'hip'],
+    instructions: [
+      'Lie on your back with both knees bent.',
+      'Bring one knee toward your chest and hold it with both hands.',
+      'Keep the other foot on the floor and hold the stretch.',
+      'Lower slowly and switch legs.',
+    ],
+  },
+  {
+    id: 'prone-press-up',
+    name: 'Prone Press-Up',
+    aliases: ['McKenzie Press Up', 'Cobra Stretch'],
+    bodyParts: ['back'],
+    instructions: [
+      'Lie face down with your hands under your shoulders.',
+      'Keeping your hips on the floor, straighten your arms to lift your chest.',
+      'Only go as high as is comfortable and let your lower back relax.',
+      'Lower back down slowly.',
+    ],
+  },
+  {
+    id: 'piriformis-stretch',
+    name: 'Piriformis Stretch',
+    aliases: ['Figure Four Stretch'],
+    bodyParts: ['hip', 'back'],
+    instructions: [
+      'Lie on your back with both knees bent.',
+      'Cross one ankle over the opposite knee.',
+      'Pull the lower leg toward your chest until you feel a stretch in the buttock.',
+      'Hold, then switch sides.',
+    ],
+  },
+  {
+    id: 'hamstring-stretch',
+    name: 'Hamstring Stretch',
+    aliases: ['Supine Hamstring Stretch'],
+    bodyParts: ['knee', 'hip', 'back'],
+    instructions: [
+      'Lie on your back and loop a towel around one foot.',
+      'Keeping the knee straight, gently raise the leg until you feel a stretch behind the thigh.',
+      'Hold without bouncing, then lower and switch legs.',
+    ],
+  },
+  {
+    id: 'quad-set',
+    name: 'Quad Sets',
+    aliases: ['Quadriceps Sets', 'Quad Squeeze'],
+    bodyParts: ['knee'],
+    instructions: [
+      'Sit or lie with your leg straight out in front of you.',
+      'Tighten the muscle on the front of your thigh, pressing the back of your knee down.',
+      'Hold for a few seconds, then relax.',
+    ],
+  },
+  {
+    id: 'straight-leg-raise',
+    name: 'Straight Leg Raises',
+    bodyParts: ['knee', 'hip'],
+    easierVariantId: 'quad-set',
+    instructions: [
+      'Lie on your back with one knee bent and the other leg straight.',
+      'Tighten the thigh of the straight leg.',
+      'Lift it to the height of the bent knee, keeping it straight.',
+      'Lower slowly and repeat.',
+    ],
+  },
+  {
+    id: 'heel-slide',
+    name: 'Heel Slides',
+    bodyParts: ['knee', 'hip'],
+    instructions: [
+      'Lie on your back with both legs straight.',
+      'Slowly slide one heel toward your buttock, bending the knee.',
+      'Stop at a comfortable stretch, then slide the heel back out.',
+    ],
+  },
+  {
+    id: 'mini-squat',
+    name: 'Mini Squats',
+    aliases: ['Partial Squat', 'Chair Squat'],
+    bodyParts: ['knee', 'hip'],
+    easierVariantId: 'quad-set',
+    instructions: [
+      'Stand with feet shoulder-width apart, holding a counter for balance if needed.',
+      'Bend your knees slightly as if starting to sit, keeping your weight in your heels.',
+      'Keep your knees in line with your toes.',
+      'Stand back up slowly.',
+    ],
+  },
+  {
+    id: 'calf-raise',
+    name: 'Calf Raises',
+    aliases: ['Heel Raises'],
+    bodyParts: ['ankle', 'knee'],
+    easierVariantId: 'ankle-circles',
+    instructions: [
+      'Stand with feet hip-width apart, holding a wall or chair for balance.',
+      'Rise up onto the balls of your feet.',
+      'Pause at the top, then lower slowly.',
+    ],
+  },
+  {
+    id: 'ankle-circles',
+    name: 'Ankle Circles',
+    bodyParts: ['ankle'],
+    instructions: [
+      'Sit with one foot lifted off the floor.',
+      'Slowly draw circles with your toes, moving only at the ankle.',
+      'Switch direction halfway through, then switch feet.',
+    ],
+  },
+  {
+    id: 'clamshell',
+    name: 'Clamshells',
+    bodyParts: ['hip', 'knee'],
+    instructions: [
+      'Lie on your side with hips and knees bent and feet together.',
+      'Keeping your feet touching, lift your top knee as far as is comfortable.',
+      'Do not let your hips roll back.',
+      'Lower slowly and repeat, then switch sides.',
+    ],
+  },
+  {
+    id: 'hip-flexor-stretch',
+    name: 'Hip Flexor Stretch',
+    aliases: ['Kneeling Hip Flexor Stretch'],
+    bodyParts: ['hip', 'back'],
+    instructions: [
+      'Kneel on one knee with the other foot flat in front of you.',
+      'Tuck your pelvis under and gently shift your weight forward.',
+      'Feel the stretch at the front of the kneeling hip and hold.',
+      'Switch sides.',
+    ],
+  },
+  {
+    id: 'side-lying-leg-raise',
+    name: 'Side-Lying Leg Raises',
+    aliases: ['Side Leg Raise', 'Hip Abduction'],
+    bodyParts: ['hip'],
+    easierVariantId: 'clamshell',
+    instructions: [
+      'Lie on your side with your bottom knee bent for support.',
+      'Keep the top leg straight and in line with your body.',
+      'Lift it a short way toward the ceiling, then lower slowly.',
+      'Switch sides.',
+    ],
+  },
+  {
+    id: 'chin-tuck',
+    name: 'Chin Tucks',
+    aliases: ['Neck Retraction'],
+    bodyParts: ['neck'],
+    instructions: [
+      'Sit or stand tall, looking straight ahead.',
+      'Gently draw your chin straight back, as if making a double chin.',
+      'Hold for a few seconds without tilting your head, then relax.',
+    ],
+  },
+  {
+    id: 'neck-side-stretch',
+    name: 'Neck Side Stretch',
+    aliases: ['Upper Trapezius Stretch', 'Lateral Neck Stretch'],
+    bodyParts: ['neck', 'shoulder'],
+    instructions: [
+      'Sit tall with your shoulders relaxed.',
+      'Tilt your ear toward one shoulder until you feel a stretch on the other side.',
+      'Hold without lifting your shoulder, then switch sides.',
+    ],
+  },
+  {
+    id: 'shoulder-roll',
+    name: 'Shoulder Rolls',
+    bodyParts: ['shoulder', 'neck'],
+    instructions: [
+      'Sit or stand with arms relaxed by your sides.',
+      'Lift your shoulders toward your ears, roll them back, then down.',
+      'Repeat in a smooth circle, then reverse direction.',
+    ],
+  },
+  {
+    id: 'scapular-squeeze',
+    name: 'Scapular Squeezes',
+    aliases: ['Shoulder Blade Squeeze', 'Scapular Retraction'],
+    bodyParts: ['shoulder', 'back', 'neck'],
+    instructions: [
+      'Sit or stand tall with arms by your sides.',
+      'Squeeze your shoulder blades together and down.',
+      'Hold for a few seconds, then relax.',
+    ],
+  },
+  {
+    id: 'pendulum',
+    name: 'Pendulum Swings',
+    aliases: ['Codman Pendulum'],
+    bodyParts: ['shoulder'],
+    instructions: [
+      'Lean forward with one hand on a table for support.',
+      'Let the other arm hang straight down, relaxed.',
+      'Gently sway your body so the arm swings in small circles.',
+      'Switch direction, then switch arms.',
+    ],
+  },
+  {
+    id: 'wall-slide',
+    name: 'Wall Slides',
+    aliases: ['Wall Angels'],
+    bodyParts: ['shoulder', 'back'],
+    easierVariantId: 'scapular-squeeze',
+    instructions: [
+      'Stand with your back and forearms against a wall, elbows bent.',
+      'Slowly slide your arms up the wall as far as is comfortable.',
+      'Keep your lower back and forearms in contact with the wall.',
+      'Slide back down.',
+    ],
+  },
+  {
+    id: 'doorway-chest-stretch',
+    name: 'Doorway Chest Stretch',
+    aliases: ['Doorway Pec Stretch'],
+    bodyParts: ['shoulder'],
+    instructions: [
+      'Stand in a doorway with forearms on the frame, elbows at shoulder height.',
+      'Step one foot forward and lean gently until you feel a stretch across your chest.',
+      'Hold, keeping your shoulders relaxed, then step back.',
+    ],
+  },
+];
@@ -0,0 +1,3 @@
+// Nearby physical therapists, offered whenever we recommend professional care
+export const PROVIDER_SEARCH_URL =
+  'https://www.google.com/maps/search/physical+therapist+near+me';
@@ -0,0 +1,62 @@
+import { useCallback } from 'react';
+import { Platform } from 'react-native';
+import * as Google from 'expo-auth-session/providers/google';
+import * as WebBrowser from 'expo-web-browser';
+
+/**
+ * Google OAuth via expo-auth-session. Produces the Google ID token that
+ * signInWithGoogle and linkGoogleAccount exchange for a Firebase credential.
+ */
+
+// Closes the auth popup when the redirect lands back in the web app
+WebBrowser.maybeCompleteAuthSession();
+
+const CLIENT_IDS = {
+  webClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
+  iosClientId: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+  androidClientId: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+};
+
+/**
+ * Whether a client id is set for this platform. useGoogleIdToken throws
+ * without one, so only render Google buttons when this is true.
+ */
+export const isGoogleSignInConfigured = (): boolean =>
+  !!Platform.select({
+    ios: CLIENT_IDS.iosClientId,
+    android: CLIENT_IDS.androidClientId,
+    default: CLIENT_IDS.webClientId,
+  });
+
+export const useGoogleIdToken = () => {
+  const [request, , promptAsync] = Google.useIdTokenAuthRequest({
+    ...CLIENT_IDS,
+    selectAccount: true,
+  });
+
+  /**
+   * Show Google's account picker. Resolves to the ID token, or null if the
+   * user backed out.
+   */
+  const getIdToken = useCallback(async (): Promise<string | null> => {
+    const result = await promptAsync();
+
+    if (result.type === 'success') {
+      const idToken = result.params.id_token || result.authentication?.idToken;
+      if (!idToken) {
+        throw new Error('Google sign-in failed. Please try again.');
+      }
+      return idToken;
+    }
+
+    if (result.type === 'error') {
+      console.error('Google OAuth error:', result.error ?? result.params);
+      throw new Error('Google sign-in failed. Please try again.');
+    }
+
+    // cancel, dismiss or locked (another prompt already open)
+    return null;
+  }, [promptAsync]);
+
+  return { ready: !!request, getIdToken };
+};
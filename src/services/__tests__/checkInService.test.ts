@@ -0,0 +1,133 @@
+import { updateConditionStatus } from '@/services/conditionService';
+import {
+  appendAdaptation,
+  AdaptationAction,
+  CheckInResponses,
+  completePlanAndResolveCondition,
+  PlanExercise,
+  RehabPlan,
+} from '@/services/planService';
+import { completeCheckIn } from '@/services/checkInService';
+
+jest.mock('@/services/conditionService', () => ({
+  updateConditionStatus: jest.fn(),
+}));
+jest.mock('@/services/planService', () => ({
+  appendAdaptation: jest.fn(),
+  completePlanAndResolveCondition: jest.fn(),
+}));
+
+const EXERCISE: PlanExercise = {
+  id: 'ex-1',
+  name: 'Glute Bridge',
+  description: 'Lift your hips.',
+  sets: 2,
+  reps: '10-12',
+  notes: '',
+  order: 0,
+};
+
+const PLAN = {
+  id: 'plan-1',
+  conditionId: 'condition-1',
+  exercises: [EXERCISE],
+} as RehabPlan;
+
+const responses = (
+  overrides: Partial<CheckInResponses> = {},
+): CheckInResponses => ({
+  overall: 'somewhat_better',
+  difficulty: 'about_right',
+  newSymptoms: false,
+  ...overrides,
+});
+
+const savedExercises = () => jest.mocked(appendAdaptation).mock.calls[0][2];
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('completeCheckIn', () => {
+  it('steps every exercise up when progressed', async () => {
+    await completeCheckIn(PLAN, responses(), 'progressed');
+
+    expect(appendAdaptation).toHaveBeenCalledWith(
+      'plan-1',
+      expect.objectContaining({
+        action: 'progressed',
+        reason:
+          'Check-in: feeling somewhat better, exercises about right, no new symptoms.',
+        changes: [expect.objectContaining({ field: 'sets', to: '3' })],
+      }),
+      [expect.objectContaining({ sets: 3 })],
+    );
+    expect(completePlanAndResolveCondition).not.toHaveBeenCalled();
+    expect(updateConditionStatus).not.toHaveBeenCalled();
+  });
+
+  it.each<[CheckInResponses['difficulty'], number | undefined]>([
+    ['too_easy', 3],
+    ['too_hard', 1],
+    ['about_right', undefined],
+  ])('follows "%s" exercises when modified', async (difficulty, sets) => {
+    await completeCheckIn(PLAN, responses({ difficulty }), 'modified');
+
+    expect(savedExercises()?.[0].sets).toBe(sets);
+  });
+
+  it('records a maintained plan without changing it', async () => {
+    await completeCheckIn(PLAN, responses(), 'maintained');
+
+    expect(appendAdaptation).toHaveBeenCalledWith(
+      'plan-1',
+      expect.objectContaining({ action: 'maintained', changes: undefined }),
+      undefined,
+    );
+  });
+
+  it('completes the plan and resolves the condition together', async () => {
+    await completeCheckIn(
+      PLAN,
+      responses({ overall: 'much_better' }),
+      'resolved',
+    );
+
+    expect(completePlanAndResolveCondition).toHaveBeenCalledWith('plan-1');
+    expect(updateConditionStatus).not.toHaveBeenCalled();
+  });
+
+  it('pauses the condition when regressed', async () => {
+    await completeCheckIn(PLAN, responses({ overall: 'worse' }), 'regressed');
+
+    expect(updateConditionStatus).toHaveBeenCalledWith('condition-1', 'paused');
+    expect(completePlanAndResolveCondition).not.toHaveBeenCalled();
+  });
+
+  it.each<[AdaptationAction, CheckInResponses['difficulty']]>([
+    ['progressed', 'about_right'],
+    ['modified', 'too_easy'],
+  ])(
+    'blocks %s with %s exercises while there are new symptoms',
+    async (outcome, difficulty) => {
+      await expect(
+        completeCheckIn(
+          PLAN,
+          responses({ difficulty, newSymptoms: true }),
+          outcome,
+        ),
+      ).rejects.toThrow('Harder exercises are unavailable');
+      expect(appendAdaptation).not.toHaveBeenCalled();
+    },
+  );
+
+  it('still lets new symptoms ease the plan', async () => {
+    await completeCheckIn(
+      PLAN,
+      responses({ difficulty: 'too_hard', newSymptoms: true }),
+      'modified',
+    );
+
+    expect(savedExercises()?.[0].sets).toBe(1);
+  });
+});
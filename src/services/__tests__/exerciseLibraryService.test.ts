@@ -0,0 +1,203 @@
+import { Image } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  ExerciseCatalogProvider,
+  getExerciseGuide,
+  setExerciseCatalogProvider,
+} from '@/services/exerciseLibraryService';
+import { PlanExercise } from '@/services/planService';
+import { CatalogExercise } from '@/utils/exerciseMatcher';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('firebase/functions', () => ({ httpsCallable: jest.fn() }));
+jest.mock('@/config/firebase', () => ({ functions: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-03-01T09:00:00Z').getTime();
+
+const search = jest.fn<
+  ReturnType<ExerciseCatalogProvider['search']>,
+  Parameters<ExerciseCatalogProvider['search']>
+>();
+
+const planExercise = (
+  name: string,
+  overrides: Partial<PlanExercise> = {},
+): PlanExercise => ({
+  id: 'exercise-1',
+  name,
+  description: '',
+  sets: 2,
+  reps: '10',
+  notes: '',
+  order: 1,
+  ...overrides,
+});
+
+// ExerciseDB's wording, which differs from the plan's
+const remoteExercise = (
+  name: string,
+  overrides: Partial<CatalogExercise> = {},
+): CatalogExercise => ({
+  id: `exdb-${name}`,
+  name,
+  bodyParts: ['upper legs'],
+  instructions: ['Remote step one.', 'Remote step two.'],
+  exerciseDbId: '0001',
+  gifUrl: 'https://media.example.com/0001.gif',
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  jest.spyOn(Image, 'prefetch').mockResolvedValue(true);
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  search.mockResolvedValue([]);
+  setExerciseCatalogProvider({ search });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// The service keeps its cache in memory for the app's lifetime, so each
+// test uses its own exercise name.
+describe('getExerciseGuide', () => {
+  it('uses the remote instructions and media when nothing is bundled', async () => {
+    search.mockResolvedValue([remoteExercise('Wall Sit')]);
+
+    const guide = await getExerciseGuide(planExercise('Wall Sits'), 'knee');
+
+    expect(search).toHaveBeenCalledWith('wall sit');
+    expect(guide).toEqual({
+      instructions: ['Remote step one.', 'Remote step two.'],
+      source: 'exercisedb',
+      exerciseDbId: '0001',
+      gifUrl: 'https://media.example.com/0001.gif',
+    });
+    expect(Image.prefetch).toHaveBeenCalledWith(
+      'https://media.example.com/0001.gif',
+    );
+  });
+
+  it('prefers bundled instructions but keeps the remote media', async () => {
+    search.mockResolvedValue([remoteExercise('Glute Bridge')]);
+
+    const guide = await getExerciseGuide(planExercise('Glute Bridge'), 'back');
+
+    expect(guide.source).toBe('bundled');
+    expect(guide.instructions[0]).toBe(
+      'Lie on your back with knees bent and feet flat, hip-width apart.',
+    );
+    expect(guide.gifUrl).toBe('https://media.example.com/0001.gif');
+  });
+
+  it('keeps the media already attached to the plan', async () => {
+    search.mockResolvedValue([remoteExercise('Step Up')]);
+
+    const guide = await getExerciseGuide(
+      planExercise('Step Up', {
+        exerciseDbId: '0420',
+        exerciseDbGifUrl: 'https://media.example.com/0420.gif',
+      }),
+    );
+
+    expect(guide).toMatchObject({
+      exerciseDbId: '0420',
+      gifUrl: 'https://media.example.com/0420.gif',
+    });
+  });
+
+  it('reuses a cached match for 30 days, then searches again', async () => {
+    search.mockResolvedValue([remoteExercise('Lateral Lunge')]);
+    const exercise = planExercise('Lateral Lunges');
+
+    await getExerciseGuide(exercise, 'hip');
+    jest.mocked(Date.now).mockReturnValue(NOW + 29 * DAY_MS);
+    const cachedGuide = await getExerciseGuide(exercise, 'hip');
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(cachedGuide.source).toBe('exercisedb');
+    const stored = JSON.parse(
+      (await AsyncStorage.getItem('@recoverly/exerciseLibrary')) ?? '{}',
+    );
+    expect(stored['lateral lunge|hip']).toMatchObject({
+      exercise: { id: 'exdb-Lateral Lunge' },
+      cachedAt: NOW,
+    });
+
+    jest.mocked(Date.now).mockReturnValue(NOW + 31 * DAY_MS);
+    await getExerciseGuide(exercise, 'hip');
+
+    expect(search).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches a search with no match', async () => {
+    const exercise = planExercise('Thread the Needle', {
+      description: 'Slide your arms up the wall.',
+    });
+
+    await getExerciseGuide(exercise);
+    const guide = await getExerciseGuide(exercise);
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(guide).toEqual({
+      instructions: ['Slide your arms up the wall.'],
+      source: 'plan',
+      exerciseDbId: undefined,
+      gifUrl: undefined,
+    });
+  });
+
+  describe('when the catalogue is unreachable', () => {
+    beforeEach(() => {
+      search.mockRejectedValue(new Error('deadline-exceeded'));
+    });
+
+    it('falls back to the bundled instructions', async () => {
+      const guide = await getExerciseGuide(planExercise('Heel Slide'), 'knee');
+
+      expect(guide).toEqual({
+        instructions: [
+          'Lie on your back with both legs straight.',
+          'Slowly slide one heel toward your buttock, bending the knee.',
+          'Stop at a comfortable stretch, then slide the heel back out.',
+        ],
+        source: 'bundled',
+        exerciseDbId: undefined,
+        gifUrl: undefined,
+      });
+      expect(Image.prefetch).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the plan's description and retries next time", async () => {
+      const exercise = planExercise('Towel Scrunches', {
+        description:
+          'Place a towel under your foot. Scrunch it with your toes!',
+      });
+
+      const guide = await getExerciseGuide(exercise, 'ankle');
+      await getExerciseGuide(exercise, 'ankle');
+
+      expect(guide).toMatchObject({
+        instructions: [
+          'Place a towel under your foot.',
+          'Scrunch it with your toes!',
+        ],
+        source: 'plan',
+      });
+      expect(search).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives a generic step when the plan has no description', async () => {
+      const guide = await getExerciseGuide(planExercise('Marble Pickups'));
+
+      expect(guide.instructions).toEqual([
+        'Move slowly and stay within a comfortable range.',
+      ]);
+    });
+  });
+});
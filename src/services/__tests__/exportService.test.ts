@@ -0,0 +1,61 @@
+import { fetchUserProfile } from '@/services/authService';
+import { getConditionsForUser } from '@/services/conditionService';
+import { getPlansForUser } from '@/services/planService';
+import { getSessionLogsForUser } from '@/services/sessionService';
+import { getPainCheckInsForUser } from '@/services/painCheckInService';
+import { collectExportData } from '@/services/exportService';
+
+jest.mock('expo-file-system', () => ({}));
+jest.mock('expo-print', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('@/services/authService', () => ({ fetchUserProfile: jest.fn() }));
+jest.mock('@/services/conditionService', () => ({
+  getConditionsForUser: jest.fn(),
+}));
+jest.mock('@/services/planService', () => ({ getPlansForUser: jest.fn() }));
+jest.mock('@/services/sessionService', () => ({
+  getSessionLogsForUser: jest.fn(),
+}));
+jest.mock('@/services/painCheckInService', () => ({
+  getPainCheckInsForUser: jest.fn(),
+}));
+
+const USER = { uid: 'user-1', email: 'sam@example.com', displayName: 'Sam' };
+
+beforeEach(() => {
+  jest.mocked(fetchUserProfile).mockResolvedValue(null);
+  jest.mocked(getConditionsForUser).mockResolvedValue([]);
+  jest.mocked(getPlansForUser).mockResolvedValue([]);
+  jest.mocked(getSessionLogsForUser).mockResolvedValue([]);
+  jest.mocked(getPainCheckInsForUser).mockResolvedValue([]);
+});
+
+describe('collectExportData', () => {
+  it('falls back to the signed-in user when there is no profile doc', async () => {
+    const data = await collectExportData(USER);
+
+    expect(data.profile).toEqual(USER);
+    expect(data.sessionLogs).toEqual([]);
+    expect(data.painCheckIns).toEqual([]);
+  });
+
+  it('fails instead of exporting a partial copy when a read fails', async () => {
+    jest
+      .mocked(getSessionLogsForUser)
+      .mockRejectedValue(
+        new Error('Failed to load your sessions. Please try again.'),
+      );
+
+    await expect(collectExportData(USER)).rejects.toThrow(
+      'Failed to load your sessions',
+    );
+  });
+
+  it('fails when the profile cannot be read', async () => {
+    jest
+      .mocked(fetchUserProfile)
+      .mockRejectedValue(new Error('Failed to get document'));
+
+    await expect(collectExportData(USER)).rejects.toThrow();
+  });
+});
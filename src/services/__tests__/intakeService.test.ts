@@ -0,0 +1,130 @@
+import type { ConversationMessage } from '@/services/conditionService';
+import {
+  getIntakeRedFlags,
+  IntakeAssessment,
+  IntakeResponse,
+  sendIntakeMessages,
+  setIntakeProvider,
+} from '@/services/intakeService';
+import { mockIntakeProvider } from '@/services/mockIntakeProvider';
+
+jest.mock('firebase/functions', () => ({ httpsCallable: jest.fn() }));
+jest.mock('@/config/firebase', () => ({ functions: {} }));
+jest.mock('@/services/planService', () => ({
+  createConditionWithPlan: jest.fn(),
+}));
+jest.mock('@/services/acknowledgmentService', () => ({
+  assertRedFlagsAcknowledged: jest.fn(),
+}));
+
+const message = (
+  role: ConversationMessage['role'],
+  content: string,
+): ConversationMessage => ({ role, content, timestamp: new Date() });
+
+const ASSESSMENT: IntakeAssessment = {
+  bodyRegion: 'knee',
+  primaryLimitation: 'strength',
+  symptomType: 'dull_ache',
+  severity: 'mild',
+  redFlags: [],
+  shouldReferOut: false,
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('sendIntakeMessages with the mock provider', () => {
+  beforeEach(() => {
+    setIntakeProvider(mockIntakeProvider);
+  });
+
+  it('asks follow-up questions until it can build a protocol', async () => {
+    const answers = [
+      'My knee aches after running',
+      '1-4 weeks',
+      'Worse',
+      'No',
+      '4',
+    ];
+    const conversation: ConversationMessage[] = [];
+    const responses: IntakeResponse[] = [];
+
+    for (const answer of answers) {
+      conversation.push(message('user', answer));
+      const response = await sendIntakeMessages(conversation);
+      responses.push(response);
+      conversation.push(message('assistant', response.message));
+    }
+
+    expect(responses.slice(0, -1).map((response) => response.type)).toEqual([
+      'question',
+      'question',
+      'question',
+      'question',
+    ]);
+
+    const result = responses[responses.length - 1];
+    if (result.type !== 'protocol') throw new Error('Expected a protocol');
+    expect(result.assessment).toMatchObject({
+      bodyRegion: 'knee',
+      severity: 'moderate',
+      redFlags: [],
+    });
+    expect(result.protocol).toMatchObject({
+      protocolName: 'Knee Support Basics',
+      frequency: '3-4 times per week',
+    });
+    expect(result.protocol.exercises.length).toBeGreaterThan(0);
+  });
+
+  it('reports a failing provider as unavailable', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setIntakeProvider({
+      respond: () => Promise.reject(new Error('network down')),
+    });
+
+    await expect(
+      sendIntakeMessages([message('user', 'My knee hurts')]),
+    ).rejects.toThrow('Service temporarily unavailable');
+  });
+});
+
+describe('getIntakeRedFlags', () => {
+  const messages = [message('user', 'My knee aches after running')];
+
+  it('adds the referral reason when the AI refers out without a flag', () => {
+    const screening = getIntakeRedFlags(messages, {
+      ...ASSESSMENT,
+      shouldReferOut: true,
+      referralReason: 'Possible ligament tear',
+    });
+
+    expect(screening.redFlags).toEqual(['Possible ligament tear']);
+  });
+
+  it('uses a generic flag for a referral without a reason', () => {
+    const screening = getIntakeRedFlags(messages, {
+      ...ASSESSMENT,
+      shouldReferOut: true,
+    });
+
+    expect(screening.redFlags).toEqual([
+      'Symptoms outside general wellness scope',
+    ]);
+  });
+
+  it("keeps the AI's own flags alongside the screener's", () => {
+    const screening = getIntakeRedFlags(
+      [message('user', 'My knee aches and my foot is numb')],
+      { ...ASSESSMENT, redFlags: ['Swelling'], shouldReferOut: true },
+    );
+
+    expect(screening.redFlags).toEqual(['Numbness', 'Swelling']);
+  });
+
+  it('has no flags when neither source raises one', () => {
+    expect(getIntakeRedFlags(messages, ASSESSMENT).redFlags).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  enqueueOutboxItem,
+  flushOutbox,
+  getOutboxEntries,
+  getRejectedOutboxEntries,
+  getRetryDelay,
+  isPermanentFailure,
+  OutboxItem,
+} from '@/services/outboxService';
+import { logSession } from '@/services/sessionService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('@/services/sessionService', () => ({
+  isValidPainScore: (score: number) =>
+    Number.isInteger(score) && score >= 0 && score <= 10,
+  logSession: jest.fn(),
+}));
+jest.mock('@/services/painCheckInService', () => ({
+  recordPainCheckIn: jest.fn(),
+}));
+
+const mockLogSession = logSession as jest.MockedFunction<typeof logSession>;
+
+const USER_ID = 'user-1';
+
+const sessionItem = (id: string, prePainScore = 5): OutboxItem => ({
+  kind: 'sessionLog',
+  id,
+  planStartDate: new Date('2025-01-06T00:00:00Z'),
+  session: {
+    userId: USER_ID,
+    planId: 'plan-1',
+    conditionId: 'condition-1',
+    completedAt: new Date('2025-01-08T09:00:00Z'),
+    prePainScore,
+    postPainScore: 3,
+    exercisesCompleted: ['bridge'],
+  },
+});
+
+// What the services throw: a friendly message wrapping the Firestore error
+const serviceError = (code: string) =>
+  new Error('Failed to save your session. Please try again.', {
+    cause: { code },
+  });
+
+const sentIds = () => mockLogSession.mock.calls.map(([id]) => id);
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  mockLogSession.mockReset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('flushOutbox', () => {
+  it('sends every entry in order and empties the queue', async () => {
+    mockLogSession.mockResolvedValue({} as never);
+    await enqueueOutboxItem(sessionItem('a'));
+    await enqueueOutboxItem(sessionItem('b'));
+
+    expect(await flushOutbox(USER_ID)).toEqual([]);
+    expect(sentIds()).toEqual(['a', 'b']);
+  });
+
+  it('moves a permanently rejected entry aside and carries on', async () => {
+    mockLogSession
+      .mockRejectedValueOnce(serviceError('permission-denied'))
+      .mockResolvedValue({} as never);
+    await enqueueOutboxItem(sessionItem('a'));
+    await enqueueOutboxItem(sessionItem('b'));
+
+    expect(await flushOutbox(USER_ID)).toEqual([]);
+    expect(sentIds()).toEqual(['a', 'b']);
+
+    const rejected = await getRejectedOutboxEntries(USER_ID);
+    expect(rejected.map((entry) => entry.id)).toEqual(['a']);
+    expect(rejected[0].reason).toBe(
+      'Failed to save your session. Please try again.',
+    );
+    expect(rejected[0].rejectedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects an entry with out-of-range scores', async () => {
+    mockLogSession
+      .mockRejectedValueOnce(new Error('Pain scores must be between 0 and 10.'))
+      .mockResolvedValue({} as never);
+    await enqueueOutboxItem(sessionItem('bad', 12));
+    await enqueueOutboxItem(sessionItem('good'));
+
+    expect(await flushOutbox(USER_ID)).toEqual([]);
+    expect(
+      (await getRejectedOutboxEntries(USER_ID)).map((entry) => entry.id),
+    ).toEqual(['bad']);
+  });
+
+  it('stops at a transient failure and counts the attempt', async () => {
+    mockLogSession.mockRejectedValue(serviceError('unavailable'));
+    await enqueueOutboxItem(sessionItem('a'));
+    await enqueueOutboxItem(sessionItem('b'));
+
+    const remaining = await flushOutbox(USER_ID);
+
+    expect(remaining.map((entry) => [entry.id, entry.attempts])).toEqual([
+      ['a', 1],
+      ['b', 0],
+    ]);
+    expect(sentIds()).toEqual(['a']);
+    expect(await getRejectedOutboxEntries(USER_ID)).toEqual([]);
+  });
+
+  it('delivers held entries once the transient failure clears', async () => {
+    mockLogSession.mockRejectedValueOnce(serviceError('unavailable'));
+    await enqueueOutboxItem(sessionItem('a'));
+    await flushOutbox(USER_ID);
+
+    mockLogSession.mockResolvedValue({} as never);
+    expect(await flushOutbox(USER_ID)).toEqual([]);
+    expect(await getOutboxEntries(USER_ID)).toEqual([]);
+  });
+});
+
+describe('isPermanentFailure', () => {
+  it.each(['permission-denied', 'invalid-argument'])(
+    'treats %s as permanent',
+    (code) => {
+      expect(isPermanentFailure(sessionItem('a'), serviceError(code))).toBe(
+        true,
+      );
+    },
+  );
+
+  it.each(['unavailable', 'deadline-exceeded', 'internal'])(
+    'retries %s',
+    (code) => {
+      expect(isPermanentFailure(sessionItem('a'), serviceError(code))).toBe(
+        false,
+      );
+    },
+  );
+
+  it('retries errors it cannot classify', () => {
+    expect(isPermanentFailure(sessionItem('a'), new Error('Network'))).toBe(
+      false,
+    );
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles per attempt up to five minutes', () => {
+    expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([
+      5000, 10000, 20000, 40000,
+    ]);
+    expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+  });
+});
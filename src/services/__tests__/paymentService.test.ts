@@ -0,0 +1,64 @@
+import {
+  CheckoutRequest,
+  setPaymentProvider,
+  startCheckout,
+} from '@/services/paymentService';
+import { createFakePaymentProvider } from '@/services/fakePaymentProvider';
+
+jest.mock('firebase/functions', () => ({ httpsCallable: jest.fn() }));
+jest.mock('expo-linking', () => ({}));
+jest.mock('expo-web-browser', () => ({}));
+jest.mock('@/config/firebase', () => ({ functions: {} }));
+
+const REQUEST: CheckoutRequest = {
+  uid: 'user-1',
+  email: 'sam@example.com',
+  tier: 'annual',
+};
+
+const NOW = new Date('2025-01-31T12:00:00Z');
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('startCheckout with the fake provider', () => {
+  it('subscribes for one period from now on success', async () => {
+    setPaymentProvider(createFakePaymentProvider('success', () => NOW, 0));
+
+    await expect(startCheckout(REQUEST)).resolves.toEqual({
+      status: 'success',
+      tier: 'annual',
+      subscriptionEndDate: new Date('2026-01-31T12:00:00Z'),
+    });
+  });
+
+  it('passes back a cancelled checkout', async () => {
+    setPaymentProvider(createFakePaymentProvider('cancelled', () => NOW, 0));
+
+    await expect(startCheckout(REQUEST)).resolves.toEqual({
+      status: 'cancelled',
+    });
+  });
+
+  it('passes back a declined payment', async () => {
+    setPaymentProvider(createFakePaymentProvider('failed', () => NOW, 0));
+
+    await expect(startCheckout(REQUEST)).resolves.toEqual({
+      status: 'failed',
+      error: 'Your card was declined.',
+    });
+  });
+
+  it('turns a provider error into a failed result', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    setPaymentProvider({
+      startCheckout: () => Promise.reject(new Error('network down')),
+    });
+
+    await expect(startCheckout(REQUEST)).resolves.toEqual({
+      status: 'failed',
+      error: 'Payment could not be completed. Please try again.',
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDoc, writeBatch } from 'firebase/firestore';
+import {
+  completePlanAndResolveCondition,
+  getPlan,
+} from '@/services/planService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('firebase/firestore', () => ({
+  doc: jest.fn((_db: unknown, ...path: string[]) => path.join('/')),
+  getDoc: jest.fn(),
+  writeBatch: jest.fn(),
+  serverTimestamp: () => 'server-timestamp',
+}));
+jest.mock('@/config/firebase', () => ({
+  db: {},
+  auth: { currentUser: { uid: 'user-1' } },
+}));
+
+const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+const planSnapshot = (userId: string) =>
+  ({
+    id: 'plan-1',
+    exists: () => true,
+    data: () => ({
+      userId,
+      conditionId: 'condition-1',
+      protocolName: 'Knee Basics',
+      status: 'active',
+      exercises: [],
+      adaptationHistory: [
+        { date: timestamp('2025-01-13T00:00:00Z'), action: 'maintained' },
+      ],
+      startDate: timestamp('2025-01-06T00:00:00Z'),
+      createdAt: timestamp('2025-01-06T00:00:00Z'),
+    }),
+  }) as never;
+
+const offline = () =>
+  mockGetDoc.mockRejectedValue(
+    Object.assign(new Error('Failed to get document'), {
+      code: 'unavailable',
+    }),
+  );
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  mockGetDoc.mockReset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getPlan', () => {
+  it('serves the last copy read online when the plan cannot be fetched', async () => {
+    mockGetDoc.mockResolvedValueOnce(planSnapshot('user-1'));
+    const online = await getPlan('plan-1');
+
+    offline();
+    const cached = await getPlan('plan-1');
+
+    expect(cached).toEqual(online);
+    expect(cached?.startDate).toEqual(new Date('2025-01-06T00:00:00Z'));
+    expect(cached?.adaptationHistory[0].date).toBeInstanceOf(Date);
+  });
+
+  it('is null offline for a plan never read on this device', async () => {
+    offline();
+
+    expect(await getPlan('plan-1')).toBeNull();
+  });
+
+  it("does not serve another user's cached plan", async () => {
+    mockGetDoc.mockResolvedValueOnce(planSnapshot('user-2'));
+    await getPlan('plan-1');
+
+    offline();
+
+    expect(await getPlan('plan-1')).toBeNull();
+  });
+});
+
+describe('completePlanAndResolveCondition', () => {
+  const batch = { update: jest.fn(), commit: jest.fn() };
+
+  beforeEach(() => {
+    batch.update.mockReset();
+    batch.commit.mockReset().mockResolvedValue(undefined);
+    jest.mocked(writeBatch).mockReturnValue(batch as never);
+  });
+
+  it('completes the plan and resolves its condition in one batch', async () => {
+    mockGetDoc.mockResolvedValueOnce(planSnapshot('user-1'));
+
+    await completePlanAndResolveCondition('plan-1');
+
+    expect(batch.update).toHaveBeenCalledWith('rehabPlans/plan-1', {
+      status: 'completed',
+    });
+    expect(batch.update).toHaveBeenCalledWith('conditions/condition-1', {
+      status: 'resolved',
+      resolvedAt: 'server-timestamp',
+    });
+    expect(batch.commit).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a failed batch', async () => {
+    mockGetDoc.mockResolvedValueOnce(planSnapshot('user-1'));
+    batch.commit.mockRejectedValue(new Error('unavailable'));
+
+    await expect(completePlanAndResolveCondition('plan-1')).rejects.toThrow(
+      'Failed to update your plan',
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { getDocs } from 'firebase/firestore';
+import { getSessionLogsForUser } from '@/services/sessionService';
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDocs: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+}));
+jest.mock('@/config/firebase', () => ({ db: {} }));
+
+const mockGetDocs = getDocs as jest.MockedFunction<typeof getDocs>;
+
+const timestamp = (iso: string) => ({ toDate: () => new Date(iso) });
+
+beforeEach(() => {
+  mockGetDocs.mockReset();
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('getSessionLogsForUser', () => {
+  it('returns the logs oldest first', async () => {
+    mockGetDocs.mockResolvedValue({
+      docs: [
+        {
+          id: 'log-2',
+          data: () => ({ completedAt: timestamp('2025-01-08T00:00:00Z') }),
+        },
+        {
+          id: 'log-1',
+          data: () => ({ completedAt: timestamp('2025-01-06T00:00:00Z') }),
+        },
+      ],
+    } as never);
+
+    const logs = await getSessionLogsForUser('user-1');
+
+    expect(logs.map((log) => log.id)).toEqual(['log-1', 'log-2']);
+  });
+
+  it('throws instead of returning no logs when the read fails', async () => {
+    const failure = Object.assign(
+      new Error('Missing or insufficient permissions'),
+      {
+        code: 'permission-denied',
+      },
+    );
+    mockGetDocs.mockRejectedValue(failure);
+
+    await expect(getSessionLogsForUser('user-1')).rejects.toMatchObject({
+      message: 'Failed to load your sessions. Please try again.',
+      cause: failure,
+    });
+  });
+});
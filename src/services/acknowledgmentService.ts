@@ -0,0 +1,120 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+/**
+ * Red Flag Acknowledgment Service
+ * Write-once ledger of users choosing to continue past a red flag warning,
+ * stored under users/{uid}/redFlagAcknowledgments for liability records.
+ * Records are only ever created, never updated or deleted.
+ */
+
+// Bump the version whenever the disclaimer text changes
+export const RED_FLAG_DISCLAIMER_VERSION = '2025-10-28';
+export const RED_FLAG_DISCLAIMER_TEXT =
+  'I understand that Recoverly detected symptoms that may need professional medical evaluation. I have been advised to consult a licensed healthcare provider before starting any exercise program. Recoverly provides general wellness guidance only and does not diagnose or treat medical conditions. I choose to continue at my own risk and will stop exercising and seek care if my symptoms worsen.';
+
+export interface RedFlagAcknowledgment {
+  id: string;
+  uid: string;
+  redFlags: string[];
+  disclaimerText: string;
+  disclaimerVersion: string;
+  acknowledgedAt: Date;
+}
+
+const acknowledgmentsRef = (uid: string) =>
+  collection(db, 'users', uid, 'redFlagAcknowledgments');
+
+/**
+ * Compare flag lists regardless of order
+ */
+const sameFlags = (a: string[], b: string[]): boolean => {
+  if (a.length !== b.length) return false;
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.every((flag, index) => flag === sortedB[index]);
+};
+
+/**
+ * Record that the user saw these red flags and accepted the current disclaimer
+ */
+export const recordRedFlagAcknowledgment = async (
+  uid: string,
+  redFlags: string[],
+): Promise<string> => {
+  try {
+    const acknowledgment = await addDoc(acknowledgmentsRef(uid), {
+      uid,
+      redFlags,
+      disclaimerText: RED_FLAG_DISCLAIMER_TEXT,
+      disclaimerVersion: RED_FLAG_DISCLAIMER_VERSION,
+      acknowledgedAt: serverTimestamp(),
+    });
+
+    return acknowledgment.id;
+  } catch (error) {
+    console.error('Record acknowledgment error:', error);
+    throw new Error('Failed to record your acknowledgment. Please try again.');
+  }
+};
+
+/**
+ * Get an acknowledgment record by id
+ */
+export const getRedFlagAcknowledgment = async (
+  uid: string,
+  acknowledgmentId: string,
+): Promise<RedFlagAcknowledgment | null> => {
+  try {
+    const acknowledgmentDoc = await getDoc(
+      doc(acknowledgmentsRef(uid), acknowledgmentId),
+    );
+
+    if (!acknowledgmentDoc.exists()) {
+      return null;
+    }
+
+    const data = acknowledgmentDoc.data();
+    return {
+      ...data,
+      id: acknowledgmentDoc.id,
+      acknowledgedAt: data.acknowledgedAt?.toDate(),
+    } as RedFlagAcknowledgment;
+  } catch (error) {
+    console.error('Get acknowledgment error:', error);
+    return null;
+  }
+};
+
+/**
+ * Throw unless the acknowledgment exists and covers exactly these red flags
+ * under the current disclaimer. No flags means nothing to acknowledge.
+ * firestore.rules also refuses a flagged condition or plan whose
+ * acknowledgment doesn't exist or covers other flags.
+ */
+export const assertRedFlagsAcknowledged = async (
+  uid: string,
+  redFlags: string[],
+  acknowledgmentId: string | null,
+): Promise<void> => {
+  if (redFlags.length === 0) return;
+
+  const acknowledgment = acknowledgmentId
+    ? await getRedFlagAcknowledgment(uid, acknowledgmentId)
+    : null;
+
+  if (
+    !acknowledgment ||
+    acknowledgment.uid !== uid ||
+    acknowledgment.disclaimerVersion !== RED_FLAG_DISCLAIMER_VERSION ||
+    !sameFlags(acknowledgment.redFlags, redFlags)
+  ) {
+    throw new Error('Please review the safety warning before continuing.');
+  }
+};
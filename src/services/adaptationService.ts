@@ -0,0 +1,56 @@
+import {
+  AdaptationAction,
+  AdaptationEntry,
+  appendAdaptation,
+  RehabPlan,
+} from '@/services/planService';
+import { SessionLog } from '@/services/sessionService';
+import {
+  AdaptationDecision,
+  evaluateAdaptation,
+  isAdaptationDue,
+} from '@/utils/adaptationEngine';
+
+/**
+ * Adaptation Service
+ * Runs the weekly rule-based plan adaptation (gameplan Flow 5) and records
+ * every decision, including "hold", on the plan's adaptation history
+ */
+
+const DECISION_ACTIONS: Record<AdaptationDecision, AdaptationAction> = {
+  progress: 'progressed',
+  hold: 'maintained',
+  regress: 'regressed',
+};
+
+/**
+ * Adapt the plan if a week has passed since its last adaptation.
+ * Returns the updated plan, or null when nothing was due.
+ */
+export const runScheduledAdaptation = async (
+  plan: RehabPlan,
+  logs: SessionLog[],
+  now: Date = new Date(),
+): Promise<RehabPlan | null> => {
+  if (!isAdaptationDue(plan, now)) return null;
+
+  const result = evaluateAdaptation(plan, logs, now);
+  const entry: Omit<AdaptationEntry, 'date'> = {
+    action: DECISION_ACTIONS[result.decision],
+    reason: result.reason,
+    changes: result.changes.length > 0 ? result.changes : undefined,
+  };
+
+  await appendAdaptation(
+    plan.id,
+    entry,
+    result.changes.length > 0 ? result.exercises : undefined,
+  );
+
+  return {
+    ...plan,
+    exercises: result.exercises,
+    adaptationHistory: [...plan.adaptationHistory, { ...entry, date: now }],
+    lastAdaptationDate: now,
+  };
+};
@@ -3,14 +3,32 @@ import {
   signInWithEmailAndPassword,
   signOut as firebaseSignOut,
   sendPasswordResetEmail,
+  verifyPasswordResetCode,
+  confirmPasswordReset,
+  applyActionCode,
+  ActionCodeSettings,
+  sendEmailVerification,
+  reload,
   updateProfile,
+  updatePassword,
+  verifyBeforeUpdateEmail,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
   GoogleAuthProvider,
+  OAuthProvider,
+  OAuthCredential,
   signInWithCredential,
+  linkWithCredential,
   User,
   UserCredential,
 } from 'firebase/auth';
 import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
-import { auth, db } from '@/config/firebase';
+import { Platform } from 'react-native';
+import * as AppleAuthentication from 'expo-apple-authentication';
+import * as Crypto from 'expo-crypto';
+import { httpsCallable } from 'firebase/functions';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth, db, functions } from '@/config/firebase';
 
 /**
  * Authentication Service
@@ -25,10 +43,19 @@ export interface UserProfile {
   subscriptionTier: 'monthly' | 'annual' | null;
   stripeCustomerId?: string;
   subscriptionEndDate?: Date;
+  // Apple "Hide My Email" relay address rather than the user's real one
+  isPrivateRelayEmail?: boolean;
   createdAt: Date;
   lastLoginAt: Date;
 }
 
+// Sign in with Apple's "Hide My Email" addresses forward to the real inbox
+const APPLE_PRIVATE_RELAY_DOMAIN = '@privaterelay.appleid.com';
+
+export const isPrivateRelayEmail = (email: string): boolean => {
+  return email.toLowerCase().endsWith(APPLE_PRIVATE_RELAY_DOMAIN);
+};
+
 /**
  * Create user profile in Firestore after signup
  */
@@ -51,6 +78,7 @@ const createUserProfile = async (user: User, displayName?: string): Promise<void
     uid: user.uid,
     email: user.email || '',
     displayName: displayName || user.displayName || 'User',
+    isPrivateRelayEmail: isPrivateRelayEmail(user.email || ''),
     subscriptionStatus: 'free',
     subscriptionTier: null,
     createdAt: serverTimestamp(),
@@ -85,6 +113,9 @@ export const signUpWithEmail = async (
     // Create user profile in Firestore
     await createUserProfile(userCredential.user, displayName);
 
+    // Already logged, and the verify screen can resend it
+    await sendVerificationEmail().catch(() => undefined);
+
     return userCredential;
   } catch (error: any) {
     console.error('Sign up error:', error);
@@ -104,6 +135,7 @@ export const signInWithEmail = async (
 
     // Update last login
     await updateLastLogin(userCredential.user.uid);
+    await completePendingLink(userCredential.user);
 
     return userCredential;
   } catch (error: any) {
@@ -112,15 +144,52 @@ export const signInWithEmail = async (
   }
 };
 
+// A Google or Apple sign-in that matched an existing account with a different
+// sign-in method. It is linked once the user signs in to that account with a
+// password.
+let pendingLink: { email: string; credential: OAuthCredential } | null = null;
+
+/**
+ * Remember the credential from an account-exists-with-different-credential
+ * error so it can be linked after a password sign-in
+ */
+const holdPendingLink = (error: any, credential: OAuthCredential | null): void => {
+  const email = error.customData?.email;
+  pendingLink = credential && email ? { email, credential } : null;
+};
+
+/**
+ * Email of the account waiting for a link, to prefill the login form
+ */
+export const getPendingLinkEmail = (): string | null => {
+  return pendingLink?.email ?? null;
+};
+
+/**
+ * Link the pending credential if the user just signed in to that account.
+ * Sign-in has already succeeded, so a failed link is only logged.
+ */
+const completePendingLink = async (user: User): Promise<void> => {
+  const pending = pendingLink;
+  if (!pending || pending.email.toLowerCase() !== user.email?.toLowerCase()) return;
+
+  pendingLink = null;
+  try {
+    await linkWithCredential(user, pending.credential);
+  } catch (error) {
+    console.error('Link pending credential error:', error);
+  }
+};
+
 /**
  * Sign in with Google OAuth
- * Note: For React Native, you'll need to use expo-auth-session or react-native-google-signin
- * This is a placeholder that accepts a Google ID token
+ * Accepts the Google ID token from the OAuth flow (see useGoogleIdToken)
  */
 export const signInWithGoogle = async (idToken: string): Promise<UserCredential> => {
   try {
     const credential = GoogleAuthProvider.credential(idToken);
     const userCredential = await signInWithCredential(auth, credential);
+    pendingLink = null;
 
     // Create or update user profile
     await createUserProfile(userCredential.user);
@@ -129,6 +198,95 @@ export const signInWithGoogle = async (idToken: string): Promise<UserCredential>
     return userCredential;
   } catch (error: any) {
     console.error('Google sign in error:', error);
+
+    if (error.code === 'auth/account-exists-with-different-credential') {
+      holdPendingLink(error, GoogleAuthProvider.credentialFromError(error));
+    }
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Whether Sign in with Apple can be offered (iOS only)
+ */
+export const isAppleSignInSupported = (): boolean => {
+  return Platform.OS === 'ios';
+};
+
+/**
+ * Ask Apple for an identity token and turn it into a Firebase credential.
+ * Apple gets the SHA-256 of a one-time nonce and Firebase the raw value, so
+ * the identity token can't be replayed. Resolves to null if the user cancels.
+ */
+const requestAppleCredential = async (): Promise<{
+  credential: OAuthCredential;
+  fullName: string;
+} | null> => {
+  let appleCredential: AppleAuthentication.AppleAuthenticationCredential;
+  const rawNonce = Crypto.randomUUID();
+
+  try {
+    const hashedNonce = await Crypto.digestStringAsync(
+      Crypto.CryptoDigestAlgorithm.SHA256,
+      rawNonce
+    );
+    appleCredential = await AppleAuthentication.signInAsync({
+      requestedScopes: [
+        AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+        AppleAuthentication.AppleAuthenticationScope.EMAIL,
+      ],
+      nonce: hashedNonce,
+    });
+  } catch (error: any) {
+    if (error.code === 'ERR_REQUEST_CANCELED') {
+      return null;
+    }
+    console.error('Apple authentication error:', error);
+    throw new Error('Apple sign-in failed. Please try again.');
+  }
+
+  if (!appleCredential.identityToken) {
+    throw new Error('Apple sign-in failed. Please try again.');
+  }
+
+  return {
+    credential: new OAuthProvider('apple.com').credential({
+      idToken: appleCredential.identityToken,
+      rawNonce,
+    }),
+    fullName: appleCredential.fullName
+      ? AppleAuthentication.formatFullName(appleCredential.fullName).trim()
+      : '',
+  };
+};
+
+/**
+ * Sign in with Apple. Resolves to null if the user cancels.
+ */
+export const signInWithApple = async (): Promise<UserCredential | null> => {
+  const apple = await requestAppleCredential();
+  if (!apple) return null;
+
+  try {
+    const userCredential = await signInWithCredential(auth, apple.credential);
+    pendingLink = null;
+
+    // Apple only shares the name on the first sign-in, so keep it now
+    const { fullName } = apple;
+    if (fullName && !userCredential.user.displayName) {
+      await updateProfile(userCredential.user, { displayName: fullName });
+    }
+
+    await createUserProfile(userCredential.user, fullName || undefined);
+    await updateLastLogin(userCredential.user.uid);
+
+    return userCredential;
+  } catch (error: any) {
+    console.error('Apple sign in error:', error);
+
+    if (error.code === 'auth/account-exists-with-different-credential') {
+      holdPendingLink(error, OAuthProvider.credentialFromError(error));
+    }
     throw new Error(getAuthErrorMessage(error.code));
   }
 };
@@ -145,37 +303,376 @@ export const signOut = async (): Promise<void> => {
   }
 };
 
+// https link that opens the app's reset-password route (universal link /
+// app link on an authorized domain). Without it Firebase's web page is used.
+const PASSWORD_RESET_URL = process.env.EXPO_PUBLIC_PASSWORD_RESET_URL;
+
 /**
- * Send password reset email
+ * Send password reset email, linking back into the app's reset-password route
+ * when an app link is configured
  */
 export const resetPassword = async (email: string): Promise<void> => {
+  const actionCodeSettings: ActionCodeSettings | undefined = PASSWORD_RESET_URL
+    ? { url: PASSWORD_RESET_URL, handleCodeInApp: true }
+    : undefined;
+
   try {
-    await sendPasswordResetEmail(auth, email);
+    await sendPasswordResetEmail(auth, email, actionCodeSettings);
   } catch (error: any) {
     console.error('Password reset error:', error);
     throw new Error(getAuthErrorMessage(error.code));
   }
 };
 
+export type PasswordResetCodeCheck =
+  | { status: 'valid'; email: string }
+  | { status: 'expired' | 'used' };
+
 /**
- * Get user profile from Firestore
+ * Check the oobCode from a password reset link before asking for a new
+ * password. Firebase reports used and malformed codes the same way.
  */
-export const getUserProfile = async (uid: string): Promise<UserProfile | null> => {
+export const checkPasswordResetCode = async (oobCode: string): Promise<PasswordResetCodeCheck> => {
   try {
-    const userRef = doc(db, 'users', uid);
-    const userDoc = await getDoc(userRef);
+    const email = await verifyPasswordResetCode(auth, oobCode);
+    return { status: 'valid', email };
+  } catch (error: any) {
+    if (error.code === 'auth/expired-action-code') {
+      return { status: 'expired' };
+    }
+    if (error.code === 'auth/invalid-action-code') {
+      return { status: 'used' };
+    }
+    console.error('Verify password reset code error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
 
-    if (!userDoc.exists()) {
-      return null;
+export type EmailVerificationCodeResult = 'verified' | 'expired' | 'used';
+
+/**
+ * Apply the oobCode from an email verification link opened in the app
+ */
+export const applyEmailVerificationCode = async (
+  oobCode: string
+): Promise<EmailVerificationCodeResult> => {
+  try {
+    await applyActionCode(auth, oobCode);
+    return 'verified';
+  } catch (error: any) {
+    if (error.code === 'auth/expired-action-code') {
+      return 'expired';
+    }
+    if (error.code === 'auth/invalid-action-code') {
+      return 'used';
     }
+    console.error('Apply email verification code error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Set the new password for a verified reset code
+ */
+export const completePasswordReset = async (oobCode: string, newPassword: string): Promise<void> => {
+  try {
+    await confirmPasswordReset(auth, oobCode, newPassword);
+  } catch (error: any) {
+    console.error('Confirm password reset error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Get the signed-in user or fail with a friendly message
+ */
+const requireCurrentUser = (): User => {
+  if (!auth.currentUser) {
+    throw new Error('You have been signed out. Please sign in again.');
+  }
+  return auth.currentUser;
+};
+
+/**
+ * Whether the user must confirm their email before using the app. Only
+ * password-only accounts: Google and Apple have already verified the address.
+ */
+export const requiresEmailVerification = (user: User): boolean => {
+  return (
+    !user.emailVerified &&
+    user.providerData.every((provider) => provider.providerId === 'password')
+  );
+};
 
-    const data = userDoc.data();
-    return {
-      ...data,
-      createdAt: data.createdAt?.toDate(),
-      lastLoginAt: data.lastLoginAt?.toDate(),
-      subscriptionEndDate: data.subscriptionEndDate?.toDate(),
-    } as UserProfile;
+// Minimum gap between verification emails, to stay clear of Firebase's rate limit
+export const VERIFICATION_EMAIL_COOLDOWN_MS = 60 * 1000;
+
+let lastVerificationEmailAt = 0;
+
+/**
+ * Time left (ms) before another verification email can be sent
+ */
+export const getVerificationEmailWait = (now: number = Date.now()): number => {
+  return Math.max(0, lastVerificationEmailAt + VERIFICATION_EMAIL_COOLDOWN_MS - now);
+};
+
+/**
+ * Send (or resend) the email verification link to the signed-in user
+ */
+export const sendVerificationEmail = async (): Promise<void> => {
+  const user = requireCurrentUser();
+  if (getVerificationEmailWait() > 0) {
+    throw new Error('Please wait a moment before requesting another email.');
+  }
+
+  try {
+    await sendEmailVerification(user);
+    lastVerificationEmailAt = Date.now();
+  } catch (error: any) {
+    console.error('Send verification email error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Re-read the signed-in user from Firebase (verification happens in the
+ * browser, outside the app) and report whether their email is now verified
+ */
+export const refreshEmailVerified = async (): Promise<boolean> => {
+  const user = auth.currentUser;
+  if (!user) return false;
+
+  try {
+    await reload(user);
+    if (user.emailVerified) {
+      // Later requests should carry the email_verified claim
+      await user.getIdToken(true);
+    }
+    return user.emailVerified;
+  } catch (error) {
+    console.error('Refresh email verification error:', error);
+    return false;
+  }
+};
+
+/**
+ * Whether the signed-in user has Google linked
+ */
+export const hasGoogleSignIn = (): boolean => {
+  return !!auth.currentUser?.providerData.some(
+    (provider) => provider.providerId === GoogleAuthProvider.PROVIDER_ID
+  );
+};
+
+/**
+ * Whether the signed-in user has Sign in with Apple
+ */
+export const hasAppleSignIn = (): boolean => {
+  return !!auth.currentUser?.providerData.some(
+    (provider) => provider.providerId === 'apple.com'
+  );
+};
+
+/**
+ * Whether the signed-in user can sign in with a password (and so can change
+ * their email or password here; Google and Apple users manage those there)
+ */
+export const hasPasswordSignIn = (): boolean => {
+  return !!auth.currentUser?.providerData.some(
+    (provider) => provider.providerId === 'password'
+  );
+};
+
+/**
+ * Confirm the user's current password. Firebase requires a recent login
+ * before email and password changes.
+ */
+export const reauthenticate = async (currentPassword: string): Promise<void> => {
+  const user = requireCurrentUser();
+
+  try {
+    const credential = EmailAuthProvider.credential(user.email || '', currentPassword);
+    await reauthenticateWithCredential(user, credential);
+  } catch (error: any) {
+    console.error('Reauthenticate error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Confirm a Google account with a fresh Google ID token (see useGoogleIdToken)
+ */
+export const reauthenticateWithGoogle = async (idToken: string): Promise<void> => {
+  const user = requireCurrentUser();
+
+  try {
+    await reauthenticateWithCredential(user, GoogleAuthProvider.credential(idToken));
+  } catch (error: any) {
+    console.error('Reauthenticate with Google error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Confirm an Apple account with a fresh Sign in with Apple. Resolves to false
+ * if the user cancels.
+ */
+export const reauthenticateWithApple = async (): Promise<boolean> => {
+  const user = requireCurrentUser();
+  const apple = await requestAppleCredential();
+  if (!apple) return false;
+
+  try {
+    await reauthenticateWithCredential(user, apple.credential);
+    return true;
+  } catch (error: any) {
+    console.error('Reauthenticate with Apple error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Change display name in both Firebase Auth and the users doc
+ */
+export const updateDisplayName = async (displayName: string): Promise<void> => {
+  const user = requireCurrentUser();
+
+  try {
+    await updateProfile(user, { displayName });
+    await setDoc(doc(db, 'users', user.uid), { displayName }, { merge: true });
+  } catch (error: any) {
+    console.error('Update display name error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Send a verification link to the new address. The email only changes once
+ * the link is opened; the users doc catches up on the next sign-in.
+ */
+export const changeEmail = async (newEmail: string, currentPassword: string): Promise<void> => {
+  await reauthenticate(currentPassword);
+
+  try {
+    await verifyBeforeUpdateEmail(requireCurrentUser(), newEmail);
+  } catch (error: any) {
+    console.error('Change email error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Change password after confirming the current one
+ */
+export const changePassword = async (
+  currentPassword: string,
+  newPassword: string
+): Promise<void> => {
+  await reauthenticate(currentPassword);
+
+  try {
+    await updatePassword(requireCurrentUser(), newPassword);
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+/**
+ * Link Google to the signed-in account so either sign-in method works
+ */
+export const linkGoogleAccount = async (idToken: string): Promise<void> => {
+  const user = requireCurrentUser();
+
+  try {
+    await linkWithCredential(user, GoogleAuthProvider.credential(idToken));
+  } catch (error: any) {
+    console.error('Link Google account error:', error);
+    throw new Error(getAuthErrorMessage(error.code));
+  }
+};
+
+// Prefix of every AsyncStorage key the app owns (outbox, caches, settings)
+const LOCAL_STORAGE_PREFIX = '@recoverly/';
+
+/**
+ * Permanently delete the account. The deleteAccount Cloud Function removes the
+ * Auth user and their data (red flag acknowledgments are retained, see
+ * README); this device's local data is cleared afterwards.
+ * Password users confirm their password here; Google and Apple users call
+ * reauthenticateWithGoogle or reauthenticateWithApple first.
+ */
+export const deleteAccount = async (currentPassword?: string): Promise<void> => {
+  const user = requireCurrentUser();
+  if (currentPassword !== undefined) {
+    await reauthenticate(currentPassword);
+  }
+
+  try {
+    // The function checks the token's sign-in time, so send a fresh one
+    await user.getIdToken(true);
+    await httpsCallable(functions, 'deleteAccount')();
+  } catch (error: any) {
+    console.error('Delete account error:', error);
+    throw new Error(
+      error.code === 'functions/failed-precondition'
+        ? 'For your security, please sign in again to delete your account.'
+        : 'Failed to delete your account. Please try again.'
+    );
+  }
+
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.startsWith(LOCAL_STORAGE_PREFIX)));
+    // The Auth user no longer exists; drop the persisted session too
+    await firebaseSignOut(auth);
+  } catch (error) {
+    console.error('Clear local data error:', error);
+  }
+};
+
+/**
+ * Copy a verified email change from Firebase Auth to the users doc
+ */
+export const syncProfileEmail = async (uid: string, email: string): Promise<void> => {
+  try {
+    await setDoc(
+      doc(db, 'users', uid),
+      { email, isPrivateRelayEmail: isPrivateRelayEmail(email) },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Sync profile email error:', error);
+  }
+};
+
+/**
+ * Read the user profile from Firestore. Resolves null when there is no users
+ * doc and throws when it can't be read.
+ */
+export const fetchUserProfile = async (uid: string): Promise<UserProfile | null> => {
+  const userRef = doc(db, 'users', uid);
+  const userDoc = await getDoc(userRef);
+
+  if (!userDoc.exists()) {
+    return null;
+  }
+
+  const data = userDoc.data();
+  return {
+    ...data,
+    createdAt: data.createdAt?.toDate(),
+    lastLoginAt: data.lastLoginAt?.toDate(),
+    subscriptionEndDate: data.subscriptionEndDate?.toDate(),
+  } as UserProfile;
+};
+
+/**
+ * Get user profile from Firestore
+ */
+export const getUserProfile = async (uid: string): Promise<UserProfile | null> => {
+  try {
+    return await fetchUserProfile(uid);
   } catch (error) {
     console.error('Get user profile error:', error);
     return null;
@@ -207,6 +704,41 @@ const getAuthErrorMessage = (errorCode: string): string => {
       return 'Network error. Please check your connection.';
     case 'auth/invalid-credential':
       return 'Invalid credentials. Please try again.';
+    case 'auth/requires-recent-login':
+      return 'For your security, please sign in again to make this change.';
+    case 'auth/user-mismatch':
+      return 'Those credentials belong to a different account.';
+    case 'auth/user-token-expired':
+      return 'Your session has expired. Please sign in again.';
+    case 'auth/missing-password':
+      return 'Please enter your current password.';
+    case 'auth/missing-email':
+      return 'Please enter an email address.';
+    case 'auth/invalid-new-email':
+      return 'Invalid new email address.';
+    case 'auth/password-does-not-meet-requirements':
+      return 'Password does not meet the requirements. Please choose a stronger one.';
+    case 'auth/account-exists-with-different-credential':
+      return 'An account already exists with this email. Sign in with your password to link them.';
+    case 'auth/credential-already-in-use':
+      return 'This account is already linked to a different Recoverly account.';
+    case 'auth/provider-already-linked':
+      return 'This sign-in method is already linked to your account.';
+    case 'auth/popup-closed-by-user':
+    case 'auth/cancelled-popup-request':
+    case 'auth/user-cancelled':
+      return 'Sign-in was cancelled.';
+    case 'auth/invalid-idp-response':
+      return 'Sign-in failed. Please try again.';
+    case 'auth/expired-action-code':
+      return 'This link has expired. Please request a new one.';
+    case 'auth/invalid-action-code':
+      return 'This link is invalid or has already been used.';
+    case 'auth/unauthorized-continue-uri':
+    case 'auth/invalid-continue-uri':
+      return 'Password reset is misconfigured. Please contact support.';
+    case 'auth/missing-or-invalid-nonce':
+      return 'Sign-in could not be verified. Please try again.';
     default:
       return 'An error occurred. Please try again.';
   }
@@ -0,0 +1,102 @@
+import { updateConditionStatus } from '@/services/conditionService';
+import {
+  AdaptationAction,
+  appendAdaptation,
+  CheckInDifficulty,
+  CheckInOverall,
+  CheckInResponses,
+  completePlanAndResolveCondition,
+  RehabPlan,
+} from '@/services/planService';
+import { buildExerciseChanges } from '@/utils/adaptationEngine';
+
+/**
+ * Check-in Service
+ * Records the outcome of the periodic plan check-in (gameplan Flow 4)
+ */
+
+export const CHECK_IN_OVERALL_LABELS: Record<CheckInOverall, string> = {
+  much_better: 'Much Better',
+  somewhat_better: 'Somewhat Better',
+  no_change: 'No Change',
+  worse: 'Worse',
+};
+
+export const CHECK_IN_DIFFICULTY_LABELS: Record<CheckInDifficulty, string> = {
+  too_easy: 'Too Easy',
+  about_right: 'About Right',
+  too_hard: 'Too Hard',
+};
+
+/**
+ * One-line summary of the answers, stored as the adaptation reason
+ */
+export const describeCheckIn = (responses: CheckInResponses): string => {
+  const overall = CHECK_IN_OVERALL_LABELS[responses.overall].toLowerCase();
+  const difficulty =
+    CHECK_IN_DIFFICULTY_LABELS[responses.difficulty].toLowerCase();
+  const symptoms = responses.newSymptoms
+    ? 'new symptoms reported'
+    : 'no new symptoms';
+
+  return `Check-in: feeling ${overall}, exercises ${difficulty}, ${symptoms}.`;
+};
+
+/**
+ * Which way a check-in outcome moves the exercises, if at all. A modified
+ * plan follows how the exercises feel; when they feel about right there is
+ * nothing to modify.
+ */
+export const getCheckInAdjustment = (
+  outcome: AdaptationAction,
+  difficulty: CheckInDifficulty,
+): 'progress' | 'regress' | null => {
+  if (outcome === 'progressed') return 'progress';
+  if (outcome !== 'modified') return null;
+
+  if (difficulty === 'too_easy') return 'progress';
+  if (difficulty === 'too_hard') return 'regress';
+  return null;
+};
+
+/**
+ * Record a check-in on the plan's adaptation history and apply its outcome:
+ * - progressed: every exercise steps up (a set, or reps once at the cap)
+ * - modified: every exercise steps up or down to match how they feel
+ * - resolved: the condition gets resolvedAt and the plan is completed
+ * - regressed: the condition is paused while the user rests or seeks care
+ * New symptoms rule out progressing until a clinician has seen them.
+ */
+export const completeCheckIn = async (
+  plan: RehabPlan,
+  responses: CheckInResponses,
+  outcome: AdaptationAction,
+): Promise<void> => {
+  const adjustment = getCheckInAdjustment(outcome, responses.difficulty);
+  if (responses.newSymptoms && adjustment === 'progress') {
+    throw new Error(
+      'Harder exercises are unavailable while you have new symptoms. Please get them checked by a healthcare provider first.',
+    );
+  }
+
+  const progression = adjustment
+    ? buildExerciseChanges(plan.exercises, adjustment)
+    : null;
+
+  await appendAdaptation(
+    plan.id,
+    {
+      action: outcome,
+      reason: describeCheckIn(responses),
+      checkIn: responses,
+      changes: progression?.changes,
+    },
+    progression?.exercises,
+  );
+
+  if (outcome === 'resolved') {
+    await completePlanAndResolveCondition(plan.id);
+  } else if (outcome === 'regressed') {
+    await updateConditionStatus(plan.conditionId, 'paused');
+  }
+};
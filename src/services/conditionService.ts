@@ -0,0 +1,214 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  onSnapshot,
+  serverTimestamp,
+  DocumentData,
+  Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+/**
+ * Condition Service
+ * Handles CRUD for the `conditions` collection (one doc per tracked issue)
+ */
+
+export type ConditionStatus = 'active' | 'resolved' | 'paused';
+export type ConditionSeverity = 'mild' | 'moderate' | 'severe';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+export interface Condition {
+  id: string;
+  userId: string;
+  status: ConditionStatus;
+
+  // AI classification output
+  bodyRegion: string;
+  primaryLimitation: string;
+  symptomType: string;
+  severity: ConditionSeverity;
+  redFlags: string[];
+  redFlagAcknowledgmentId?: string;
+
+  // User input
+  initialDescription: string;
+  conversationHistory: ConversationMessage[];
+
+  createdAt: Date;
+  resolvedAt?: Date;
+
+  activePlanId?: string;
+}
+
+export type NewCondition = Omit<
+  Condition,
+  'id' | 'status' | 'createdAt' | 'resolvedAt' | 'activePlanId'
+>;
+
+const conditionsRef = collection(db, 'conditions');
+
+/**
+ * Convert a Firestore document into a Condition
+ */
+const toCondition = (id: string, data: DocumentData): Condition => {
+  return {
+    ...data,
+    id,
+    redFlags: data.redFlags || [],
+    conversationHistory: (data.conversationHistory || []).map(
+      (message: DocumentData) => ({
+        ...message,
+        timestamp: message.timestamp?.toDate(),
+      }),
+    ),
+    createdAt: data.createdAt?.toDate(),
+    resolvedAt: data.resolvedAt?.toDate(),
+  } as Condition;
+};
+
+/**
+ * Newest first. Sorted here rather than in the query to avoid a composite
+ * index on userId + createdAt.
+ */
+const byNewest = (a: Condition, b: Condition): number =>
+  b.createdAt.getTime() - a.createdAt.getTime();
+
+/**
+ * Create a new active condition, returns the new document id
+ */
+export const createCondition = async (
+  condition: NewCondition,
+): Promise<string> => {
+  try {
+    const conditionDoc = await addDoc(conditionsRef, {
+      ...condition,
+      status: 'active',
+      createdAt: serverTimestamp(),
+    });
+
+    return conditionDoc.id;
+  } catch (error) {
+    console.error('Create condition error:', error);
+    throw new Error('Failed to save your condition. Please try again.');
+  }
+};
+
+/**
+ * Get a single condition by id
+ */
+export const getCondition = async (
+  conditionId: string,
+): Promise<Condition | null> => {
+  try {
+    const conditionDoc = await getDoc(doc(db, 'conditions', conditionId));
+
+    if (!conditionDoc.exists()) {
+      return null;
+    }
+
+    return toCondition(conditionDoc.id, conditionDoc.data());
+  } catch (error) {
+    console.error('Get condition error:', error);
+    return null;
+  }
+};
+
+/**
+ * List all conditions for a user, newest first. Throws if they can't be
+ * read, so callers never mistake a failed read for no conditions.
+ */
+export const getConditionsForUser = async (
+  userId: string,
+): Promise<Condition[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(conditionsRef, where('userId', '==', userId)),
+    );
+
+    return snapshot.docs
+      .map((conditionDoc) => toCondition(conditionDoc.id, conditionDoc.data()))
+      .sort(byNewest);
+  } catch (error) {
+    console.error('Get conditions error:', error);
+    throw new Error('Failed to load your conditions. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Subscribe to live updates of a user's conditions, newest first
+ */
+export const subscribeToConditions = (
+  userId: string,
+  onChange: (conditions: Condition[]) => void,
+  onError?: (error: Error) => void,
+): Unsubscribe => {
+  return onSnapshot(
+    query(conditionsRef, where('userId', '==', userId)),
+    (snapshot) => {
+      // A condition just created offline has no server createdAt yet, so
+      // use the local estimate to keep it sortable
+      onChange(
+        snapshot.docs
+          .map((conditionDoc) =>
+            toCondition(
+              conditionDoc.id,
+              conditionDoc.data({ serverTimestamps: 'estimate' }),
+            ),
+          )
+          .sort(byNewest),
+      );
+    },
+    (error) => {
+      console.error('Conditions subscription error:', error);
+      onError?.(error);
+    },
+  );
+};
+
+/**
+ * Update condition status (active/paused/resolved)
+ * Resolving goes through resolveCondition so resolvedAt is always set
+ */
+export const updateConditionStatus = async (
+  conditionId: string,
+  status: ConditionStatus,
+): Promise<void> => {
+  if (status === 'resolved') {
+    return resolveCondition(conditionId);
+  }
+
+  try {
+    await updateDoc(doc(db, 'conditions', conditionId), { status });
+  } catch (error) {
+    console.error('Update condition status error:', error);
+    throw new Error('Failed to update your condition. Please try again.');
+  }
+};
+
+/**
+ * Mark a condition as resolved and stamp resolvedAt
+ */
+export const resolveCondition = async (conditionId: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, 'conditions', conditionId), {
+      status: 'resolved',
+      resolvedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Resolve condition error:', error);
+    throw new Error('Failed to update your condition. Please try again.');
+  }
+};
@@ -0,0 +1,200 @@
+import { Image } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import { PlanExercise } from '@/services/planService';
+import { BUNDLED_EXERCISES } from '@/constants/exerciseCatalog';
+import {
+  CatalogExercise,
+  findBestMatch,
+  normalizeExerciseName,
+} from '@/utils/exerciseMatcher';
+
+/**
+ * Exercise Library Service
+ * Resolves plan exercises to instructions and visuals: the remote catalogue
+ * (ExerciseDB) for media, the bundled catalogue for vetted text, and the
+ * plan's own description as a last resort, so there are always instructions.
+ */
+
+export interface ExerciseGuide {
+  instructions: string[];
+  // Where the instructions came from
+  source: 'bundled' | 'exercisedb' | 'plan';
+  exerciseDbId?: string;
+  gifUrl?: string;
+}
+
+export interface ExerciseCatalogProvider {
+  search(name: string): Promise<CatalogExercise[]>;
+}
+
+// Past this the session falls back to bundled instructions
+const SEARCH_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Production provider: ExerciseDB via the searchExercises Cloud Function
+ */
+export const cloudExerciseCatalog: ExerciseCatalogProvider = {
+  async search(name) {
+    const searchExercises = httpsCallable<
+      { name: string },
+      { exercises: CatalogExercise[] }
+    >(functions, 'searchExercises', { timeout: SEARCH_TIMEOUT_MS });
+
+    const result = await searchExercises({ name });
+    return result.data.exercises;
+  },
+};
+
+/**
+ * Offline provider: the bundled catalogue only
+ */
+export const bundledExerciseCatalog: ExerciseCatalogProvider = {
+  async search() {
+    return BUNDLED_EXERCISES;
+  },
+};
+
+// EXPO_PUBLIC_EXERCISE_LIBRARY=bundled skips the remote catalogue
+let activeProvider: ExerciseCatalogProvider =
+  process.env.EXPO_PUBLIC_EXERCISE_LIBRARY === 'bundled'
+    ? bundledExerciseCatalog
+    : cloudExerciseCatalog;
+
+/**
+ * Swap the catalogue provider (e.g. the bundled provider in tests)
+ */
+export const setExerciseCatalogProvider = (
+  provider: ExerciseCatalogProvider,
+): void => {
+  activeProvider = provider;
+};
+
+const CACHE_STORAGE_KEY = '@recoverly/exerciseLibrary';
+// Remote matches (including "no match") are reused for a month
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CachedMatch {
+  exercise: CatalogExercise | null;
+  cachedAt: number;
+}
+
+let memoryCache: Record<string, CachedMatch> | null = null;
+
+const loadCache = async (): Promise<Record<string, CachedMatch>> => {
+  if (memoryCache) return memoryCache;
+
+  let cache: Record<string, CachedMatch> = {};
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_STORAGE_KEY);
+    if (raw) cache = JSON.parse(raw);
+  } catch (error) {
+    console.error('Corrupt exercise cache, starting fresh:', error);
+  }
+  memoryCache = cache;
+  return cache;
+};
+
+const saveMatch = async (
+  key: string,
+  exercise: CatalogExercise | null,
+): Promise<void> => {
+  const cache = await loadCache();
+  cache[key] = { exercise, cachedAt: Date.now() };
+
+  try {
+    await AsyncStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error('Save exercise cache error:', error);
+  }
+};
+
+/**
+ * Best remote match for an exercise, from the cache when fresh.
+ * Null when there's no match or the catalogue is unreachable.
+ */
+const findRemoteMatch = async (
+  name: string,
+  bodyRegion: string | undefined,
+): Promise<CatalogExercise | null> => {
+  const key = `${normalizeExerciseName(name)}|${bodyRegion ?? ''}`;
+  const cached = (await loadCache())[key];
+  if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
+    return cached.exercise;
+  }
+
+  try {
+    const results = await activeProvider.search(normalizeExerciseName(name));
+    const match = findBestMatch(name, bodyRegion, results)?.exercise ?? null;
+    await saveMatch(key, match);
+    return match;
+  } catch (error) {
+    // Not cached, so the next session tries the catalogue again
+    console.error('Exercise library error:', error);
+    return null;
+  }
+};
+
+/**
+ * Split a plan description into steps, for when no catalogue entry matches
+ */
+const toSteps = (exercise: PlanExercise): string[] => {
+  // Plans saved before descriptions were validated may not have one
+  const sentences = (exercise.description ?? '')
+    .match(/[^.!?]+[.!?]*/g)
+    ?.map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  return sentences && sentences.length > 0
+    ? sentences
+    : ['Move slowly and stay within a comfortable range.'];
+};
+
+/**
+ * Instructions and visuals for a plan exercise. Never throws.
+ */
+export const getExerciseGuide = async (
+  exercise: PlanExercise,
+  bodyRegion?: string,
+): Promise<ExerciseGuide> => {
+  const remote = await findRemoteMatch(exercise.name, bodyRegion);
+  const bundled = findBestMatch(
+    exercise.name,
+    bodyRegion,
+    BUNDLED_EXERCISES,
+  )?.exercise;
+
+  // A visual already attached to the plan wins over a looked-up one
+  const exerciseDbId = exercise.exerciseDbId ?? remote?.exerciseDbId;
+  const gifUrl = exercise.exerciseDbGifUrl ?? remote?.gifUrl;
+  if (gifUrl) {
+    // Warm the image cache so the GIF is there for the next session offline
+    Image.prefetch(gifUrl).catch((error) =>
+      console.error('Prefetch exercise media error:', error),
+    );
+  }
+
+  if (bundled) {
+    return {
+      instructions: bundled.instructions,
+      source: 'bundled',
+      exerciseDbId,
+      gifUrl,
+    };
+  }
+  if (remote && remote.instructions.length > 0) {
+    return {
+      instructions: remote.instructions,
+      source: 'exercisedb',
+      exerciseDbId,
+      gifUrl,
+    };
+  }
+  return {
+    instructions: toSteps(exercise),
+    source: 'plan',
+    exerciseDbId,
+    gifUrl,
+  };
+};
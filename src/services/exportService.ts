@@ -0,0 +1,121 @@
+import { File, Paths } from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { UserProfile, fetchUserProfile } from '@/services/authService';
+import { getConditionsForUser } from '@/services/conditionService';
+import { getPlansForUser } from '@/services/planService';
+import { getSessionLogsForUser } from '@/services/sessionService';
+import { getPainCheckInsForUser } from '@/services/painCheckInService';
+import {
+  ExportData,
+  buildJsonExport,
+  buildPrintableSummary,
+  buildSessionLogsCsv,
+} from '@/utils/dataExport';
+
+/**
+ * Export Service
+ * Gathers the user's data, writes it to a file in the cache directory and
+ * hands it to the OS share sheet (save to Files, email to a physio, etc.)
+ */
+
+export type ExportFormat = 'json' | 'csv' | 'pdf';
+
+type ExportUser = Pick<UserProfile, 'uid' | 'email' | 'displayName'>;
+
+const FORMATS: Record<
+  Exclude<ExportFormat, 'pdf'>,
+  { name: string; mimeType: string; uti: string }
+> = {
+  json: {
+    name: 'recoverly-export',
+    mimeType: 'application/json',
+    uti: 'public.json',
+  },
+  csv: {
+    name: 'recoverly-sessions',
+    mimeType: 'text/csv',
+    uti: 'public.comma-separated-values-text',
+  },
+};
+
+/**
+ * Everything the user has stored with us. The profile falls back to the
+ * signed-in user if there is no users doc. Throws if anything can't be read
+ * (e.g. offline) rather than exporting a partial copy.
+ */
+export const collectExportData = async (
+  user: ExportUser,
+): Promise<ExportData> => {
+  const [profile, conditions, plans, sessionLogs, painCheckIns] =
+    await Promise.all([
+      fetchUserProfile(user.uid),
+      getConditionsForUser(user.uid),
+      getPlansForUser(user.uid),
+      getSessionLogsForUser(user.uid),
+      getPainCheckInsForUser(user.uid),
+    ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: profile ?? {
+      uid: user.uid,
+      email: user.email,
+      displayName: user.displayName,
+    },
+    conditions,
+    plans,
+    sessionLogs,
+    painCheckIns,
+  };
+};
+
+const writeExportFile = (fileName: string, contents: string): string => {
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(contents);
+  return file.uri;
+};
+
+/**
+ * Build the export in the given format and open the share sheet
+ */
+export const shareExport = async (
+  format: ExportFormat,
+  user: ExportUser,
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device.');
+  }
+
+  try {
+    const data = await collectExportData(user);
+    const date = data.exportedAt.toISOString().slice(0, 10);
+
+    if (format === 'pdf') {
+      const { uri } = await Print.printToFileAsync({
+        html: buildPrintableSummary(data),
+      });
+      await Sharing.shareAsync(uri, {
+        mimeType: 'application/pdf',
+        UTI: 'com.adobe.pdf',
+        dialogTitle: 'Share your recovery summary',
+      });
+      return;
+    }
+
+    const { name, mimeType, uti } = FORMATS[format];
+    const contents =
+      format === 'json' ? buildJsonExport(data) : buildSessionLogsCsv(data);
+    const uri = writeExportFile(`${name}-${date}.${format}`, contents);
+
+    await Sharing.shareAsync(uri, {
+      mimeType,
+      UTI: uti,
+      dialogTitle: 'Share your data',
+    });
+  } catch (error) {
+    console.error('Export data error:', error);
+    throw new Error('Failed to export your data. Please try again.');
+  }
+};
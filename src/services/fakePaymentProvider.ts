@@ -0,0 +1,51 @@
+import type {
+  CheckoutResult,
+  PaymentProvider,
+} from '@/services/paymentService';
+
+/**
+ * Fake Payment Provider
+ * Offline stand-in for Stripe used for demos and tests. Succeeds by default;
+ * create one with a fixed outcome to exercise the cancel and failure paths.
+ * There is no webhook behind it, so the subscription lasts for the app session.
+ */
+
+export type FakeCheckoutOutcome = CheckoutResult['status'];
+
+// Short pause so the paywall's loading state is visible in demos
+const FAKE_CHECKOUT_DELAY_MS = 800;
+
+const addPeriod = (from: Date, tier: 'monthly' | 'annual'): Date => {
+  const end = new Date(from);
+  if (tier === 'annual') {
+    end.setFullYear(end.getFullYear() + 1);
+  } else {
+    end.setMonth(end.getMonth() + 1);
+  }
+  return end;
+};
+
+export const createFakePaymentProvider = (
+  outcome: FakeCheckoutOutcome = 'success',
+  now: () => Date = () => new Date(),
+  delayMs = FAKE_CHECKOUT_DELAY_MS,
+): PaymentProvider => ({
+  async startCheckout({ tier }) {
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+    switch (outcome) {
+      case 'cancelled':
+        return { status: 'cancelled' };
+      case 'failed':
+        return { status: 'failed', error: 'Your card was declined.' };
+      default:
+        return {
+          status: 'success',
+          tier,
+          subscriptionEndDate: addPeriod(now(), tier),
+        };
+    }
+  },
+});
+
+export const fakePaymentProvider = createFakePaymentProvider();
@@ -0,0 +1,156 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '@/config/firebase';
+import {
+  ConditionSeverity,
+  ConversationMessage,
+} from '@/services/conditionService';
+import { createConditionWithPlan, NewRehabPlan } from '@/services/planService';
+import { assertRedFlagsAcknowledged } from '@/services/acknowledgmentService';
+import { mockIntakeProvider } from '@/services/mockIntakeProvider';
+import {
+  combineRedFlags,
+  RedFlagScreening,
+  screenForRedFlags,
+} from '@/utils/redFlagScreener';
+
+/**
+ * Intake Service
+ * Runs the AI intake conversation through a swappable provider and turns the
+ * finished conversation into a condition + plan
+ */
+
+export interface IntakeMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface IntakeAssessment {
+  bodyRegion: string;
+  primaryLimitation: string;
+  symptomType: string;
+  severity: ConditionSeverity;
+  redFlags: string[];
+  shouldReferOut: boolean;
+  referralReason?: string;
+}
+
+export type ProtocolDraft = Omit<NewRehabPlan, 'conditionId' | 'userId'>;
+
+export interface IntakeQuestion {
+  type: 'question';
+  message: string;
+  options?: string[];
+}
+
+export interface IntakeProtocol {
+  type: 'protocol';
+  message: string;
+  assessment: IntakeAssessment;
+  protocol: ProtocolDraft;
+}
+
+export type IntakeResponse = IntakeQuestion | IntakeProtocol;
+
+export interface IntakeProvider {
+  respond(messages: IntakeMessage[]): Promise<IntakeResponse>;
+}
+
+/**
+ * Production provider: the generateRecoveryPlan Cloud Function (OpenAI)
+ */
+export const cloudIntakeProvider: IntakeProvider = {
+  async respond(messages) {
+    const generateRecoveryPlan = httpsCallable<
+      { messages: IntakeMessage[] },
+      IntakeResponse
+    >(functions, 'generateRecoveryPlan');
+
+    const result = await generateRecoveryPlan({ messages });
+    return result.data;
+  },
+};
+
+// EXPO_PUBLIC_INTAKE_PROVIDER=mock runs intake fully offline
+let activeProvider: IntakeProvider =
+  process.env.EXPO_PUBLIC_INTAKE_PROVIDER === 'mock'
+    ? mockIntakeProvider
+    : cloudIntakeProvider;
+
+/**
+ * Swap the intake provider (e.g. the mock provider in tests)
+ */
+export const setIntakeProvider = (provider: IntakeProvider): void => {
+  activeProvider = provider;
+};
+
+/**
+ * Send the conversation so far and get the next question or the protocol
+ */
+export const sendIntakeMessages = async (
+  messages: ConversationMessage[],
+): Promise<IntakeResponse> => {
+  try {
+    return await activeProvider.respond(
+      messages.map(({ role, content }) => ({ role, content })),
+    );
+  } catch (error) {
+    console.error('Intake error:', error);
+    throw new Error('Service temporarily unavailable. Please try again.');
+  }
+};
+
+/**
+ * Red flags for a finished intake: the rule-based screener's flags plus the
+ * AI's. Either source alone is enough to require the red flag warning.
+ */
+export const getIntakeRedFlags = (
+  messages: ConversationMessage[],
+  assessment: IntakeAssessment,
+): RedFlagScreening => {
+  const screening = screenForRedFlags(messages);
+  const aiFlags = [...assessment.redFlags];
+
+  // A referral with no named flag still has to reach the warning screen
+  if (assessment.shouldReferOut && aiFlags.length === 0) {
+    aiFlags.push(
+      assessment.referralReason || 'Symptoms outside general wellness scope',
+    );
+  }
+
+  return combineRedFlags(screening, aiFlags);
+};
+
+/**
+ * Save a finished intake: the condition (with its conversation) and its plan,
+ * written together so a failed save can simply be retried.
+ * A flagged intake is refused unless a matching acknowledgment was recorded.
+ */
+export const completeIntake = async (
+  userId: string,
+  messages: ConversationMessage[],
+  result: IntakeProtocol,
+  redFlags: string[],
+  acknowledgmentId: string | null,
+): Promise<{ conditionId: string; planId: string }> => {
+  await assertRedFlagsAcknowledged(userId, redFlags, acknowledgmentId);
+
+  const { assessment, protocol } = result;
+  const firstUserMessage = messages.find((message) => message.role === 'user');
+
+  return createConditionWithPlan(
+    {
+      userId,
+      bodyRegion: assessment.bodyRegion,
+      primaryLimitation: assessment.primaryLimitation,
+      symptomType: assessment.symptomType,
+      severity: assessment.severity,
+      redFlags,
+      ...(acknowledgmentId
+        ? { redFlagAcknowledgmentId: acknowledgmentId }
+        : {}),
+      initialDescription: firstUserMessage?.content || '',
+      conversationHistory: messages,
+    },
+    { ...protocol, userId },
+  );
+};
@@ -0,0 +1,327 @@
+import type {
+  IntakeMessage,
+  IntakeProvider,
+  IntakeResponse,
+  ProtocolDraft,
+} from '@/services/intakeService';
+import type { PlanExercise } from '@/services/planService';
+
+/**
+ * Mock Intake Provider
+ * Deterministic stand-in for the AI used in development and tests. The same
+ * conversation always produces the same questions and protocol.
+ */
+
+const FOLLOW_UP_QUESTIONS: { message: string; options?: string[] }[] = [
+  {
+    message: 'How long have you had this issue?',
+    options: ['Less than a week', '1-4 weeks', 'More than a month'],
+  },
+  {
+    message: 'Does it get better or worse throughout the day?',
+    options: ['Better', 'Worse', 'About the same'],
+  },
+  {
+    message: 'Have you had any recent injuries, falls or accidents?',
+    options: ['No', 'Yes'],
+  },
+  {
+    message: 'On a scale of 0-10, how bad is the pain right now?',
+  },
+];
+
+type MockExercise = Omit<PlanExercise, 'id' | 'order'>;
+
+interface RegionProtocol {
+  keywords: string[];
+  bodyRegion: string;
+  primaryLimitation: string;
+  protocolName: string;
+  exercises: MockExercise[];
+}
+
+const REGION_PROTOCOLS: RegionProtocol[] = [
+  {
+    keywords: ['back', 'spine', 'lumbar'],
+    bodyRegion: 'lower_back',
+    primaryLimitation: 'mobility',
+    protocolName: 'Lower Back Mobility Reset',
+    exercises: [
+      {
+        name: 'Cat-Cow Stretch',
+        description:
+          'On hands and knees, arch your back (cow), then round it (cat).',
+        sets: 2,
+        reps: '10-12',
+        notes: 'Move slowly and breathe deeply.',
+      },
+      {
+        name: "Child's Pose",
+        description: 'Sit back onto your heels with arms reaching forward.',
+        sets: 2,
+        reps: '30 seconds',
+        notes: 'Let your back relax into the stretch.',
+      },
+      {
+        name: 'Pelvic Tilts',
+        description:
+          'Lying on your back with knees bent, flatten then arch your lower back.',
+        sets: 2,
+        reps: '10-15',
+        notes: 'Keep the movement small and controlled.',
+      },
+      {
+        name: 'Glute Bridges',
+        description:
+          'Lying on your back, squeeze your glutes to lift your hips.',
+        sets: 2,
+        reps: '10-12',
+        notes: 'Pause briefly at the top.',
+      },
+    ],
+  },
+  {
+    keywords: ['knee'],
+    bodyRegion: 'knee',
+    primaryLimitation: 'strength',
+    protocolName: 'Knee Support Basics',
+    exercises: [
+      {
+        name: 'Quad Sets',
+        description:
+          'Sitting with your leg straight, tighten your thigh to press the knee down.',
+        sets: 2,
+        reps: '10-15',
+        notes: 'Hold each squeeze for 3 seconds.',
+      },
+      {
+        name: 'Straight Leg Raises',
+        description:
+          'Lying down, lift a straight leg to the height of the bent knee.',
+        sets: 2,
+        reps: '10 each side',
+        notes: 'Keep your thigh tight throughout.',
+      },
+      {
+        name: 'Heel Slides',
+        description: 'Lying down, slide your heel toward your glutes and back.',
+        sets: 2,
+        reps: '10-12',
+        notes: 'Stay within a comfortable range.',
+      },
+      {
+        name: 'Glute Bridges',
+        description:
+          'Lying on your back, squeeze your glutes to lift your hips.',
+        sets: 2,
+        reps: '10-12',
+        notes: 'Pause briefly at the top.',
+      },
+    ],
+  },
+  {
+    keywords: ['neck'],
+    bodyRegion: 'neck',
+    primaryLimitation: 'mobility',
+    protocolName: 'Neck Mobility Routine',
+    exercises: [
+      {
+        name: 'Chin Tucks',
+        description:
+          'Gently draw your chin straight back, making a double chin.',
+        sets: 2,
+        reps: '10',
+        notes: 'Keep your eyes level.',
+      },
+      {
+        name: 'Neck Side Stretch',
+        description: 'Tilt your ear toward your shoulder and hold.',
+        sets: 2,
+        reps: '30 seconds each side',
+        notes: 'Keep your shoulders relaxed.',
+      },
+      {
+        name: 'Shoulder Rolls',
+        description: 'Roll your shoulders up, back and down in slow circles.',
+        sets: 2,
+        reps: '10',
+        notes: 'Make the circles as large as is comfortable.',
+      },
+    ],
+  },
+  {
+    keywords: ['shoulder'],
+    bodyRegion: 'shoulder',
+    primaryLimitation: 'mobility',
+    protocolName: 'Shoulder Mobility Basics',
+    exercises: [
+      {
+        name: 'Pendulum Swings',
+        description:
+          'Lean forward and let your arm hang, making small circles.',
+        sets: 2,
+        reps: '30 seconds',
+        notes: 'Let gravity do the work.',
+      },
+      {
+        name: 'Wall Slides',
+        description: 'With your back to a wall, slide your arms up and down.',
+        sets: 2,
+        reps: '10-12',
+        notes: 'Keep your lower back against the wall.',
+      },
+      {
+        name: 'Doorway Chest Stretch',
+        description: 'Place forearms on a doorframe and lean gently forward.',
+        sets: 2,
+        reps: '30 seconds',
+        notes: 'Stop before any pinching.',
+      },
+    ],
+  },
+  {
+    keywords: ['hip'],
+    bodyRegion: 'hip',
+    primaryLimitation: 'mobility',
+    protocolName: 'Hip Mobility Reset',
+    exercises: [
+      {
+        name: 'Hip Flexor Stretch',
+        description: 'In a half-kneeling position, shift your hips forward.',
+        sets: 2,
+        reps: '30 seconds each side',
+        notes: 'Squeeze the glute of the back leg.',
+      },
+      {
+        name: 'Clamshells',
+        description: 'Lying on your side with knees bent, open the top knee.',
+        sets: 2,
+        reps: '10-15 each side',
+        notes: 'Keep your feet together.',
+      },
+      {
+        name: 'Glute Bridges',
+        description:
+          'Lying on your back, squeeze your glutes to lift your hips.',
+        sets: 2,
+        reps: '10-12',
+        notes: 'Pause briefly at the top.',
+      },
+    ],
+  },
+];
+
+const DEFAULT_PROTOCOL: RegionProtocol = {
+  keywords: [],
+  bodyRegion: 'general',
+  primaryLimitation: 'mobility',
+  protocolName: 'General Mobility Routine',
+  exercises: [
+    {
+      name: 'Cat-Cow Stretch',
+      description:
+        'On hands and knees, arch your back (cow), then round it (cat).',
+      sets: 2,
+      reps: '10-12',
+      notes: 'Move slowly and breathe deeply.',
+    },
+    {
+      name: 'Glute Bridges',
+      description: 'Lying on your back, squeeze your glutes to lift your hips.',
+      sets: 2,
+      reps: '10-12',
+      notes: 'Pause briefly at the top.',
+    },
+    {
+      name: 'Dead Bugs',
+      description:
+        'Lying on your back, lower opposite arm and leg while bracing your core.',
+      sets: 2,
+      reps: '8 each side',
+      notes: 'Keep your lower back flat.',
+    },
+  ],
+};
+
+const DISCLAIMER =
+  'This is general wellness guidance, not medical advice. Stop any exercise that increases your pain and consult a licensed healthcare provider if symptoms persist or worsen.';
+
+/**
+ * Pick a protocol from the first body region mentioned in the conversation
+ */
+const matchRegion = (text: string): RegionProtocol => {
+  const lower = text.toLowerCase();
+  return (
+    REGION_PROTOCOLS.find((region) =>
+      region.keywords.some((keyword) => lower.includes(keyword)),
+    ) || DEFAULT_PROTOCOL
+  );
+};
+
+/**
+ * Read a 0-10 pain score from the user's answer, if there is one
+ */
+const parsePainScore = (answer: string): number | null => {
+  const match = answer.match(/\b(10|[0-9])\b/);
+  return match ? Number(match[1]) : null;
+};
+
+const buildProtocol = (userMessages: string[]): IntakeResponse => {
+  const region = matchRegion(userMessages.join(' '));
+  const painScore = parsePainScore(userMessages[userMessages.length - 1]);
+  const severity =
+    painScore === null || painScore <= 3
+      ? 'mild'
+      : painScore <= 6
+        ? 'moderate'
+        : 'severe';
+
+  const protocol: ProtocolDraft = {
+    protocolName: region.protocolName,
+    description: `A gentle bodyweight routine for your ${region.bodyRegion.replace(/_/g, ' ')} focusing on ${region.primaryLimitation}.`,
+    targetDurationWeeks: 2,
+    frequency: '3-4 times per week',
+    exercises: region.exercises.map((exercise, index) => ({
+      ...exercise,
+      id: `exercise-${index + 1}`,
+      order: index,
+    })),
+    safetyNotes: [
+      'Stop any exercise that causes sharp pain.',
+      'Mild discomfort is okay; pain should not linger after the session.',
+    ],
+    progressionNotes:
+      'If pain improves, continue. If no change or worse after 2 weeks, consult a professional.',
+    disclaimer: DISCLAIMER,
+  };
+
+  return {
+    type: 'protocol',
+    message: `Based on your description, here's what I recommend: ${region.exercises.length} simple exercises, 3-4x per week, for 2 weeks.`,
+    assessment: {
+      bodyRegion: region.bodyRegion,
+      primaryLimitation: region.primaryLimitation,
+      symptomType: 'dull_ache',
+      severity,
+      redFlags: [],
+      shouldReferOut: false,
+    },
+    protocol,
+  };
+};
+
+export const mockIntakeProvider: IntakeProvider = {
+  async respond(messages: IntakeMessage[]): Promise<IntakeResponse> {
+    const userMessages = messages
+      .filter((message) => message.role === 'user')
+      .map((message) => message.content);
+
+    // First message is the description, each follow-up answers one question
+    const questionIndex = userMessages.length - 1;
+    if (questionIndex < FOLLOW_UP_QUESTIONS.length) {
+      return { type: 'question', ...FOLLOW_UP_QUESTIONS[questionIndex] };
+    }
+
+    return buildProtocol(userMessages);
+  },
+};
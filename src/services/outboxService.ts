@@ -0,0 +1,253 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  isValidPainScore,
+  logSession,
+  NewSessionLog,
+} from '@/services/sessionService';
+import {
+  NewPainCheckIn,
+  recordPainCheckIn,
+} from '@/services/painCheckInService';
+
+/**
+ * Outbox Service
+ * Persistent queue of writes made while offline. Entries are replayed oldest
+ * first and keyed by their client-generated id, so each lands exactly once.
+ * Entries the server will never accept are moved aside to a rejected list so
+ * they can't hold up the rest of the queue.
+ */
+
+export type OutboxItem =
+  | {
+      kind: 'sessionLog';
+      id: string;
+      session: NewSessionLog;
+      planStartDate: Date;
+    }
+  | {
+      kind: 'painCheckIn';
+      id: string;
+      checkIn: NewPainCheckIn;
+    };
+
+export type OutboxEntry = OutboxItem & {
+  queuedAt: Date;
+  attempts: number;
+};
+
+export type RejectedOutboxEntry = OutboxEntry & {
+  rejectedAt: Date;
+  reason: string;
+};
+
+const OUTBOX_STORAGE_KEY = '@recoverly/outbox';
+const REJECTED_STORAGE_KEY = '@recoverly/outbox-rejected';
+
+// Fields stored as ISO strings that need to come back as Dates
+const DATE_FIELDS = [
+  'completedAt',
+  'planStartDate',
+  'recordedAt',
+  'queuedAt',
+  'rejectedAt',
+];
+
+// Firestore error codes for writes that will fail the same way every time
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument'];
+
+// Retry delay after a transient failure, doubling per attempt up to the cap
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+const reviveDates = (key: string, value: unknown) =>
+  DATE_FIELDS.includes(key) && typeof value === 'string'
+    ? new Date(value)
+    : value;
+
+// Every read-modify-write of the stored queue runs through this chain so an
+// enqueue during a replay can't overwrite it
+let storageLock: Promise<unknown> = Promise.resolve();
+
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = storageLock.then(task);
+  storageLock = result.catch(() => undefined);
+  return result;
+};
+
+const readList = async <T>(key: string): Promise<T[]> => {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return [];
+
+  try {
+    return JSON.parse(raw, reviveDates) as T[];
+  } catch (error) {
+    console.error('Corrupt outbox, starting fresh:', error);
+    return [];
+  }
+};
+
+const readEntries = (): Promise<OutboxEntry[]> =>
+  readList<OutboxEntry>(OUTBOX_STORAGE_KEY);
+
+const writeEntries = async (entries: OutboxEntry[]): Promise<void> => {
+  await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+};
+
+const getOwner = (item: OutboxItem): string =>
+  item.kind === 'sessionLog' ? item.session.userId : item.checkIn.userId;
+
+/**
+ * Queued entries belonging to a user, oldest first
+ */
+export const getOutboxEntries = async (
+  userId: string,
+): Promise<OutboxEntry[]> => {
+  const entries = await readEntries();
+  return entries.filter((entry) => getOwner(entry) === userId);
+};
+
+/**
+ * Entries the server rejected for a user, oldest first. Kept so the data
+ * isn't lost, but never replayed.
+ */
+export const getRejectedOutboxEntries = async (
+  userId: string,
+): Promise<RejectedOutboxEntry[]> => {
+  const entries = await readList<RejectedOutboxEntry>(REJECTED_STORAGE_KEY);
+  return entries.filter((entry) => getOwner(entry) === userId);
+};
+
+/**
+ * Add an item to the outbox. An item whose id is already queued is ignored.
+ */
+export const enqueueOutboxItem = (item: OutboxItem): Promise<void> =>
+  withLock(async () => {
+    const entries = await readEntries();
+    if (entries.some((entry) => entry.id === item.id)) return;
+
+    await writeEntries([
+      ...entries,
+      { ...item, queuedAt: new Date(), attempts: 0 },
+    ]);
+  });
+
+const sendEntry = async (entry: OutboxEntry): Promise<void> => {
+  switch (entry.kind) {
+    case 'sessionLog':
+      await logSession(entry.id, entry.session, entry.planStartDate);
+      return;
+    case 'painCheckIn':
+      await recordPainCheckIn(entry.id, entry.checkIn);
+      return;
+  }
+};
+
+const hasValidScores = (item: OutboxItem): boolean =>
+  item.kind === 'sessionLog'
+    ? isValidPainScore(item.session.prePainScore) &&
+      isValidPainScore(item.session.postPainScore)
+    : isValidPainScore(item.checkIn.painScore);
+
+/**
+ * Whether a failed entry would fail the same way on every retry: its scores
+ * are out of range, or Firestore refused it outright. Anything else (offline,
+ * unavailable, timeouts) is worth retrying.
+ */
+export const isPermanentFailure = (
+  item: OutboxItem,
+  error: unknown,
+): boolean => {
+  if (!hasValidScores(item)) return true;
+
+  // The services wrap Firestore errors, keeping the original as the cause
+  const source = error instanceof Error && error.cause ? error.cause : error;
+  const code = (source as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODES.includes(code);
+};
+
+/**
+ * How long to wait before replaying again after an entry's `attempts`th
+ * transient failure
+ */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(
+    MAX_RETRY_DELAY_MS,
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+  );
+
+const removeEntry = (id: string): Promise<void> =>
+  withLock(async () => {
+    const entries = await readEntries();
+    await writeEntries(entries.filter((stored) => stored.id !== id));
+  });
+
+const rejectEntry = (entry: OutboxEntry, error: unknown): Promise<void> =>
+  withLock(async () => {
+    const rejected = await readList<RejectedOutboxEntry>(REJECTED_STORAGE_KEY);
+    await AsyncStorage.setItem(
+      REJECTED_STORAGE_KEY,
+      JSON.stringify([
+        ...rejected,
+        {
+          ...entry,
+          rejectedAt: new Date(),
+          reason: error instanceof Error ? error.message : String(error),
+        },
+      ]),
+    );
+
+    const entries = await readEntries();
+    await writeEntries(entries.filter((stored) => stored.id !== entry.id));
+  });
+
+const recordFailedAttempt = (id: string): Promise<void> =>
+  withLock(async () => {
+    const entries = await readEntries();
+    await writeEntries(
+      entries.map((stored) =>
+        stored.id === id
+          ? { ...stored, attempts: stored.attempts + 1 }
+          : stored,
+      ),
+    );
+  });
+
+let activeFlush: Promise<OutboxEntry[]> | null = null;
+
+/**
+ * Replay a user's queued entries in order. A permanent failure moves that
+ * entry to the rejected list and carries on; a transient one stops the
+ * replay so nothing is written out of order, and the rest wait for the next
+ * attempt (see getRetryDelay). Returns the user's entries still pending.
+ */
+export const flushOutbox = (userId: string): Promise<OutboxEntry[]> => {
+  // A replay already running also picks up anything queued since it started
+  if (activeFlush) return activeFlush;
+
+  activeFlush = (async () => {
+    let entry: OutboxEntry | undefined;
+    while ((entry = (await getOutboxEntries(userId))[0])) {
+      try {
+        await sendEntry(entry);
+      } catch (error) {
+        if (isPermanentFailure(entry, error)) {
+          console.error('Outbox entry rejected:', entry.id, error);
+          await rejectEntry(entry, error);
+          continue;
+        }
+
+        console.error('Outbox replay error:', error);
+        await recordFailedAttempt(entry.id);
+        break;
+      }
+
+      await removeEntry(entry.id);
+    }
+
+    return getOutboxEntries(userId);
+  })().finally(() => {
+    activeFlush = null;
+  });
+
+  return activeFlush;
+};
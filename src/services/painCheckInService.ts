@@ -0,0 +1,105 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+import { isValidPainScore } from '@/services/sessionService';
+
+/**
+ * Pain Check-in Service
+ * Handles the `painCheckIns` collection: single pain readings taken around a
+ * session, kept even when the session itself is abandoned
+ */
+
+export type PainCheckInContext = 'pre-session' | 'post-session';
+
+export interface PainCheckIn {
+  id: string;
+  userId: string;
+  conditionId: string;
+  planId: string;
+  painScore: number;
+  context: PainCheckInContext;
+  recordedAt: Date;
+}
+
+export type NewPainCheckIn = Omit<PainCheckIn, 'id'>;
+
+const painCheckInsRef = collection(db, 'painCheckIns');
+
+/**
+ * Convert a Firestore document into a PainCheckIn
+ */
+const toPainCheckIn = (id: string, data: DocumentData): PainCheckIn => {
+  return {
+    ...data,
+    id,
+    recordedAt: data.recordedAt?.toDate(),
+  } as PainCheckIn;
+};
+
+/**
+ * Write a pain check-in under a client-generated id. Safe to retry: a
+ * check-in that already exists is left untouched.
+ */
+export const recordPainCheckIn = async (
+  checkInId: string,
+  checkIn: NewPainCheckIn,
+): Promise<void> => {
+  if (!isValidPainScore(checkIn.painScore)) {
+    throw new Error('Pain scores must be between 0 and 10.');
+  }
+
+  try {
+    const checkInRef = doc(db, 'painCheckIns', checkInId);
+    if ((await getDoc(checkInRef)).exists()) return;
+
+    await setDoc(checkInRef, {
+      ...checkIn,
+      recordedAt: Timestamp.fromDate(checkIn.recordedAt),
+    });
+  } catch (error) {
+    console.error('Record pain check-in error:', error);
+    throw new Error('Failed to save your pain check-in. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Get every pain check-in for a user, oldest first. Throws if they can't be
+ * read.
+ */
+export const getPainCheckInsForUser = async (
+  userId: string,
+): Promise<PainCheckIn[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(painCheckInsRef, where('userId', '==', userId)),
+    );
+
+    // Sorted here rather than in the query to avoid a composite index
+    return snapshot.docs
+      .map((checkInDoc) => toPainCheckIn(checkInDoc.id, checkInDoc.data()))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  } catch (error) {
+    console.error('Get pain check-ins error:', error);
+    throw new Error('Failed to load your pain check-ins. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Generate a client-side id for a new pain check-in
+ */
+export const createPainCheckInId = (): string => {
+  return doc(painCheckInsRef).id;
+};
@@ -0,0 +1,122 @@
+import { httpsCallable } from 'firebase/functions';
+import * as Linking from 'expo-linking';
+import * as WebBrowser from 'expo-web-browser';
+import { functions } from '@/config/firebase';
+import { fakePaymentProvider } from '@/services/fakePaymentProvider';
+
+/**
+ * Payment Service
+ * Subscription plans and checkout through a swappable payment provider.
+ * The subscription fields on users/{uid} are server-only: the Stripe webhook
+ * records a completed checkout, so the app only mirrors it in the auth store.
+ */
+
+export type SubscriptionTier = 'monthly' | 'annual';
+
+export interface SubscriptionPlan {
+  tier: SubscriptionTier;
+  title: string;
+  price: number;
+  priceLabel: string;
+  periodLabel: string;
+  savingsLabel?: string;
+}
+
+export const SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
+  {
+    tier: 'monthly',
+    title: 'Monthly',
+    price: 9.99,
+    priceLabel: '$9.99',
+    periodLabel: '/month',
+  },
+  {
+    tier: 'annual',
+    title: 'Annual',
+    price: 79.99,
+    priceLabel: '$79.99',
+    periodLabel: '/year',
+    savingsLabel: 'Save 33%',
+  },
+];
+
+export interface CheckoutRequest {
+  uid: string;
+  email: string;
+  tier: SubscriptionTier;
+}
+
+export type CheckoutResult =
+  | { status: 'success'; tier: SubscriptionTier; subscriptionEndDate: Date }
+  | { status: 'cancelled' }
+  | { status: 'failed'; error: string };
+
+export interface PaymentProvider {
+  startCheckout(request: CheckoutRequest): Promise<CheckoutResult>;
+}
+
+/**
+ * Production provider: Stripe Checkout in the system browser, created by the
+ * createCheckoutSession Cloud Function and returning via a deep link
+ */
+export const stripePaymentProvider: PaymentProvider = {
+  async startCheckout({ tier }) {
+    const returnUrl = Linking.createURL('checkout');
+    const createCheckoutSession = httpsCallable<
+      { tier: SubscriptionTier; returnUrl: string },
+      { url: string; subscriptionEndDate: string }
+    >(functions, 'createCheckoutSession');
+
+    const { data } = await createCheckoutSession({ tier, returnUrl });
+    const browserResult = await WebBrowser.openAuthSessionAsync(
+      data.url,
+      returnUrl,
+    );
+
+    if (browserResult.type !== 'success') {
+      return { status: 'cancelled' };
+    }
+
+    const { queryParams } = Linking.parse(browserResult.url);
+    if (queryParams?.status !== 'success') {
+      return { status: 'cancelled' };
+    }
+
+    return {
+      status: 'success',
+      tier,
+      subscriptionEndDate: new Date(data.subscriptionEndDate),
+    };
+  },
+};
+
+// EXPO_PUBLIC_PAYMENT_PROVIDER=fake runs checkout fully offline
+let activeProvider: PaymentProvider =
+  process.env.EXPO_PUBLIC_PAYMENT_PROVIDER === 'fake'
+    ? fakePaymentProvider
+    : stripePaymentProvider;
+
+/**
+ * Swap the payment provider (e.g. the fake provider in tests)
+ */
+export const setPaymentProvider = (provider: PaymentProvider): void => {
+  activeProvider = provider;
+};
+
+/**
+ * Hand off to checkout. Never throws: failures come back as a 'failed' result
+ * so the paywall can stay put with the user's intake intact.
+ */
+export const startCheckout = async (
+  request: CheckoutRequest,
+): Promise<CheckoutResult> => {
+  try {
+    return await activeProvider.startCheckout(request);
+  } catch (error) {
+    console.error('Checkout error:', error);
+    return {
+      status: 'failed',
+      error: 'Payment could not be completed. Please try again.',
+    };
+  }
+};
@@ -0,0 +1,524 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  updateDoc,
+  writeBatch,
+  arrayUnion,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth, db } from '@/config/firebase';
+import type { NewCondition } from '@/services/conditionService';
+
+/**
+ * Rehab Plan Service
+ * Handles the `rehabPlans` collection. Plan content is AI-generated, so every
+ * plan is validated before it is written.
+ */
+
+export type PlanStatus = 'active' | 'completed' | 'abandoned';
+export type AdaptationAction =
+  | 'progressed'
+  | 'maintained'
+  | 'regressed'
+  | 'modified'
+  | 'resolved';
+
+export interface PlanExercise {
+  id: string;
+  name: string;
+  description: string;
+  sets: number;
+  reps: string;
+  notes: string;
+
+  // Visual aids (optional for MVP)
+  exerciseDbId?: string;
+  exerciseDbGifUrl?: string;
+  youtubeVideoId?: string;
+  youtubeChannelName?: string;
+
+  order: number;
+}
+
+export type CheckInOverall =
+  | 'much_better'
+  | 'somewhat_better'
+  | 'no_change'
+  | 'worse';
+export type CheckInDifficulty = 'too_easy' | 'about_right' | 'too_hard';
+
+// The user's answers when an entry came from a check-in
+export interface CheckInResponses {
+  overall: CheckInOverall;
+  difficulty: CheckInDifficulty;
+  newSymptoms: boolean;
+}
+
+// A concrete edit to one exercise, with the reason shown to the user
+export interface ExerciseChange {
+  exerciseId: string;
+  exerciseName: string;
+  // 'exercise' swaps in an easier variant; from/to are then exercise names
+  field: 'sets' | 'reps' | 'exercise';
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface AdaptationEntry {
+  date: Date;
+  action: AdaptationAction;
+  reason: string;
+  aiRecommendation?: string;
+  checkIn?: CheckInResponses;
+  changes?: ExerciseChange[];
+}
+
+export interface RehabPlan {
+  id: string;
+  conditionId: string;
+  userId: string;
+
+  protocolName: string;
+  description: string;
+
+  startDate: Date;
+  targetDurationWeeks: number;
+  currentWeek: number;
+  frequency: string;
+
+  exercises: PlanExercise[];
+
+  safetyNotes: string[];
+  progressionNotes: string;
+  disclaimer: string;
+
+  lastAdaptationDate?: Date;
+  adaptationHistory: AdaptationEntry[];
+
+  status: PlanStatus;
+  createdAt: Date;
+}
+
+export type NewRehabPlan = Omit<
+  RehabPlan,
+  | 'id'
+  | 'startDate'
+  | 'currentWeek'
+  | 'lastAdaptationDate'
+  | 'adaptationHistory'
+  | 'status'
+  | 'createdAt'
+>;
+
+// "10", "10-15", "30 seconds", "5 breaths", "8-10 each side"
+const REPS_PATTERN =
+  /^\d+(\s*-\s*\d+)?(\s*(reps?|seconds?|secs?|minutes?|mins?|breaths?))?(\s*(each|per)\s+(side|leg|arm))?$/i;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Users check in on how the plan is going every two weeks
+export const CHECK_IN_INTERVAL_DAYS = 14;
+
+// Plans can only leave 'active'; completed and abandoned are final
+const ALLOWED_STATUS_TRANSITIONS: Record<PlanStatus, PlanStatus[]> = {
+  active: ['completed', 'abandoned'],
+  completed: [],
+  abandoned: [],
+};
+
+/**
+ * Check a reps string is something a user can actually follow
+ */
+export const isValidReps = (reps: string): boolean => {
+  return REPS_PATTERN.test(reps.trim());
+};
+
+/**
+ * 1-indexed day of the plan ("Day N of M"), clamped to the plan's length
+ */
+export const getPlanDay = (
+  startDate: Date,
+  targetDurationWeeks: number,
+  now: Date = new Date(),
+): { day: number; totalDays: number } => {
+  const totalDays = targetDurationWeeks * 7;
+  const elapsedDays = Math.floor(
+    (now.getTime() - startDate.getTime()) / MS_PER_DAY,
+  );
+  return {
+    day: Math.min(totalDays, Math.max(1, elapsedDays + 1)),
+    totalDays,
+  };
+};
+
+/**
+ * Whether the plan has reached a check-in point (every CHECK_IN_INTERVAL_DAYS
+ * from the start) with no check-in recorded since that point. Automatic
+ * adaptations don't count, the user still has to check in.
+ */
+export const isCheckInDue = (
+  plan: Pick<RehabPlan, 'startDate' | 'adaptationHistory' | 'status'>,
+  now: Date = new Date(),
+): boolean => {
+  if (plan.status !== 'active' || !plan.startDate) return false;
+
+  const elapsedDays = Math.floor(
+    (now.getTime() - plan.startDate.getTime()) / MS_PER_DAY,
+  );
+  const checkpoints = Math.floor(elapsedDays / CHECK_IN_INTERVAL_DAYS);
+  if (checkpoints < 1) return false;
+
+  const latestCheckpoint = new Date(
+    plan.startDate.getTime() +
+      checkpoints * CHECK_IN_INTERVAL_DAYS * MS_PER_DAY,
+  );
+  return !plan.adaptationHistory.some(
+    (entry) =>
+      entry.checkIn && entry.date.getTime() >= latestCheckpoint.getTime(),
+  );
+};
+
+/**
+ * Validate AI-generated plan content, returns a list of problems (empty if valid)
+ */
+export const validatePlan = (plan: NewRehabPlan): string[] => {
+  const errors: string[] = [];
+
+  if (!plan.protocolName?.trim()) {
+    errors.push('Plan is missing a protocol name.');
+  }
+
+  if (!plan.disclaimer?.trim()) {
+    errors.push('Plan is missing a disclaimer.');
+  }
+
+  if (
+    !Number.isInteger(plan.targetDurationWeeks) ||
+    plan.targetDurationWeeks < 1
+  ) {
+    errors.push('Plan duration must be at least 1 week.');
+  }
+
+  if (!plan.frequency?.trim()) {
+    errors.push('Plan is missing a session frequency.');
+  }
+
+  if (!Array.isArray(plan.exercises) || plan.exercises.length === 0) {
+    errors.push('Plan must contain at least one exercise.');
+    return errors;
+  }
+
+  plan.exercises.forEach((exercise, index) => {
+    const label = exercise.name?.trim() || `Exercise ${index + 1}`;
+
+    if (!exercise.id?.trim()) {
+      errors.push(`${label} is missing an id.`);
+    }
+    if (!exercise.name?.trim()) {
+      errors.push(`${label} is missing a name.`);
+    }
+    if (typeof exercise.description !== 'string') {
+      errors.push(`${label} is missing a description.`);
+    }
+    if (!Number.isInteger(exercise.sets) || exercise.sets < 1) {
+      errors.push(`${label} must have a positive whole number of sets.`);
+    }
+    if (typeof exercise.reps !== 'string' || !isValidReps(exercise.reps)) {
+      errors.push(`${label} has an invalid reps value "${exercise.reps}".`);
+    }
+    if (!Number.isInteger(exercise.order) || exercise.order < 0) {
+      errors.push(`${label} has an invalid order.`);
+    }
+  });
+
+  const ids = plan.exercises.map((exercise) => exercise.id);
+  if (new Set(ids).size !== ids.length) {
+    errors.push('Exercise ids must be unique.');
+  }
+
+  return errors;
+};
+
+/**
+ * Convert a Firestore document into a RehabPlan
+ */
+const toRehabPlan = (id: string, data: DocumentData): RehabPlan => {
+  return {
+    ...data,
+    id,
+    exercises: [...(data.exercises || [])].sort(
+      (a: PlanExercise, b: PlanExercise) => a.order - b.order,
+    ),
+    adaptationHistory: (data.adaptationHistory || []).map(
+      (entry: DocumentData) => ({
+        ...entry,
+        date: entry.date?.toDate(),
+      }),
+    ),
+    startDate: data.startDate?.toDate(),
+    lastAdaptationDate: data.lastAdaptationDate?.toDate(),
+    createdAt: data.createdAt?.toDate(),
+  } as RehabPlan;
+};
+
+/**
+ * Throw the user-facing error if a plan fails validation
+ */
+const assertValidPlan = (plan: NewRehabPlan): void => {
+  const errors = validatePlan(plan);
+  if (errors.length > 0) {
+    console.error('Plan validation failed:', errors);
+    throw new Error(
+      'We could not build a safe plan from this protocol. Please try again.',
+    );
+  }
+};
+
+/**
+ * Fields every new plan starts with
+ */
+const newPlanData = (plan: NewRehabPlan): DocumentData => ({
+  ...plan,
+  startDate: serverTimestamp(),
+  currentWeek: 1,
+  adaptationHistory: [],
+  status: 'active',
+  createdAt: serverTimestamp(),
+});
+
+/**
+ * Create a validated plan and link it to its condition via activePlanId
+ */
+export const createPlan = async (plan: NewRehabPlan): Promise<string> => {
+  assertValidPlan(plan);
+
+  try {
+    const planRef = doc(collection(db, 'rehabPlans'));
+    const batch = writeBatch(db);
+
+    batch.set(planRef, newPlanData(plan));
+    batch.update(doc(db, 'conditions', plan.conditionId), {
+      activePlanId: planRef.id,
+    });
+
+    await batch.commit();
+    return planRef.id;
+  } catch (error) {
+    console.error('Create plan error:', error);
+    throw new Error('Failed to save your plan. Please try again.');
+  }
+};
+
+/**
+ * Create a new active condition together with its first plan. The plan is
+ * validated before anything is written and both docs land in one batch, so a
+ * rejected plan never leaves an orphan condition behind.
+ */
+export const createConditionWithPlan = async (
+  condition: NewCondition,
+  plan: Omit<NewRehabPlan, 'conditionId'>,
+): Promise<{ conditionId: string; planId: string }> => {
+  const conditionRef = doc(collection(db, 'conditions'));
+  const planRef = doc(collection(db, 'rehabPlans'));
+  const newPlan = { ...plan, conditionId: conditionRef.id };
+
+  assertValidPlan(newPlan);
+
+  try {
+    const batch = writeBatch(db);
+
+    batch.set(conditionRef, {
+      ...condition,
+      status: 'active',
+      activePlanId: planRef.id,
+      createdAt: serverTimestamp(),
+    });
+    batch.set(planRef, newPlanData(newPlan));
+
+    await batch.commit();
+    return { conditionId: conditionRef.id, planId: planRef.id };
+  } catch (error) {
+    console.error('Create condition with plan error:', error);
+    throw new Error('Failed to save your plan. Please try again.');
+  }
+};
+
+// Every plan read online is kept on the device, one key per plan, so a
+// session can start without a connection
+const PLAN_CACHE_KEY_PREFIX = '@recoverly/plan/';
+const PLAN_DATE_FIELDS = [
+  'startDate',
+  'lastAdaptationDate',
+  'createdAt',
+  // adaptationHistory entries
+  'date',
+];
+
+const revivePlanDates = (key: string, value: unknown) =>
+  PLAN_DATE_FIELDS.includes(key) && typeof value === 'string'
+    ? new Date(value)
+    : value;
+
+const cachePlan = async (plan: RehabPlan): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      PLAN_CACHE_KEY_PREFIX + plan.id,
+      JSON.stringify(plan),
+    );
+  } catch (error) {
+    console.error('Cache plan error:', error);
+  }
+};
+
+/**
+ * The copy of a plan saved the last time it was read, if it belongs to the
+ * signed-in user
+ */
+const getCachedPlan = async (planId: string): Promise<RehabPlan | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(PLAN_CACHE_KEY_PREFIX + planId);
+    const plan = raw ? (JSON.parse(raw, revivePlanDates) as RehabPlan) : null;
+    return plan && plan.userId === auth.currentUser?.uid ? plan : null;
+  } catch (error) {
+    console.error('Read cached plan error:', error);
+    return null;
+  }
+};
+
+/**
+ * Get a plan by id, falling back to the device's copy when it can't be read
+ * (e.g. offline)
+ */
+export const getPlan = async (planId: string): Promise<RehabPlan | null> => {
+  try {
+    const planDoc = await getDoc(doc(db, 'rehabPlans', planId));
+
+    if (!planDoc.exists()) {
+      return null;
+    }
+
+    const plan = toRehabPlan(planDoc.id, planDoc.data());
+    await cachePlan(plan);
+    return plan;
+  } catch (error) {
+    console.error('Get plan error:', error);
+    return getCachedPlan(planId);
+  }
+};
+
+/**
+ * Get every plan the user has had, oldest first. Throws if they can't be read.
+ */
+export const getPlansForUser = async (userId: string): Promise<RehabPlan[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'rehabPlans'), where('userId', '==', userId)),
+    );
+
+    // Sorted here rather than in the query to avoid a composite index
+    return snapshot.docs
+      .map((planDoc) => toRehabPlan(planDoc.id, planDoc.data()))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  } catch (error) {
+    console.error('Get plans error:', error);
+    throw new Error('Failed to load your plans. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Move a plan to a new status, rejecting transitions out of a final state
+ */
+export const updatePlanStatus = async (
+  planId: string,
+  status: PlanStatus,
+): Promise<void> => {
+  const plan = await getPlan(planId);
+  if (!plan) {
+    throw new Error('Plan not found.');
+  }
+
+  if (!ALLOWED_STATUS_TRANSITIONS[plan.status].includes(status)) {
+    throw new Error(`Cannot change a ${plan.status} plan to ${status}.`);
+  }
+
+  try {
+    await updateDoc(doc(db, 'rehabPlans', planId), { status });
+  } catch (error) {
+    console.error('Update plan status error:', error);
+    throw new Error('Failed to update your plan. Please try again.');
+  }
+};
+
+/**
+ * Complete a plan and resolve its condition in one batch, so a failed write
+ * never leaves a resolved condition with an active plan
+ */
+export const completePlanAndResolveCondition = async (
+  planId: string,
+): Promise<void> => {
+  const plan = await getPlan(planId);
+  if (!plan) {
+    throw new Error('Plan not found.');
+  }
+
+  if (!ALLOWED_STATUS_TRANSITIONS[plan.status].includes('completed')) {
+    throw new Error(`Cannot change a ${plan.status} plan to completed.`);
+  }
+
+  try {
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, 'rehabPlans', planId), { status: 'completed' });
+    batch.update(doc(db, 'conditions', plan.conditionId), {
+      status: 'resolved',
+      resolvedAt: serverTimestamp(),
+    });
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Complete plan error:', error);
+    throw new Error('Failed to update your plan. Please try again.');
+  }
+};
+
+/**
+ * Append an entry to the plan's adaptation history (entries are never edited).
+ * When the adaptation changes exercises, pass the new list so both are saved
+ * in the same write.
+ */
+export const appendAdaptation = async (
+  planId: string,
+  entry: Omit<AdaptationEntry, 'date'>,
+  exercises?: PlanExercise[],
+): Promise<void> => {
+  const now = Timestamp.now();
+
+  // Firestore rejects undefined fields, so only include optional ones when present
+  const record = {
+    ...Object.fromEntries(
+      Object.entries(entry).filter(([, value]) => value !== undefined),
+    ),
+    date: now,
+  };
+
+  try {
+    await updateDoc(doc(db, 'rehabPlans', planId), {
+      adaptationHistory: arrayUnion(record),
+      lastAdaptationDate: now,
+      ...(exercises ? { exercises } : {}),
+    });
+  } catch (error) {
+    console.error('Append adaptation error:', error);
+    throw new Error('Failed to update your plan. Please try again.');
+  }
+};
@@ -0,0 +1,196 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Condition } from '@/services/conditionService';
+import { getPlan, RehabPlan } from '@/services/planService';
+import { getSessionLogsForPlan } from '@/services/sessionService';
+import { getOutboxEntries } from '@/services/outboxService';
+import {
+  DEFAULT_REMINDER_TIME,
+  getReminderTimes,
+  ReminderTime,
+} from '@/utils/reminderSchedule';
+
+/**
+ * Reminder Service
+ * Schedules on-device session reminders for each active plan. Reminders are
+ * best-effort: failures are logged and never block the flow that triggered
+ * them.
+ */
+
+const REMINDER_TIME_STORAGE_KEY = '@recoverly/reminderTime';
+const REMINDER_CHANNEL_ID = 'session-reminders';
+const REMINDER_ID_PREFIX = 'session-reminder';
+
+// One identifier per plan and slot, so a plan's reminders can be found again
+const planReminderPrefix = (planId: string) =>
+  `${REMINDER_ID_PREFIX}:${planId}:`;
+
+/**
+ * The user's preferred reminder time (stored on this device)
+ */
+export const getReminderTime = async (): Promise<ReminderTime> => {
+  try {
+    const raw = await AsyncStorage.getItem(REMINDER_TIME_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ReminderTime) : DEFAULT_REMINDER_TIME;
+  } catch (error) {
+    console.error('Get reminder time error:', error);
+    return DEFAULT_REMINDER_TIME;
+  }
+};
+
+export const setReminderTime = async (time: ReminderTime): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(REMINDER_TIME_STORAGE_KEY, JSON.stringify(time));
+  } catch (error) {
+    console.error('Set reminder time error:', error);
+    throw new Error('Failed to save your reminder time. Please try again.');
+  }
+};
+
+/**
+ * Ask for notification permission if we haven't already.
+ * Android needs the channel to exist before it will show the prompt.
+ */
+export const requestReminderPermission = async (): Promise<boolean> => {
+  try {
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: 'Session reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted || !current.canAskAgain) return current.granted;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Request reminder permission error:', error);
+    return false;
+  }
+};
+
+/**
+ * Cancel every reminder scheduled for one plan
+ */
+export const cancelPlanReminders = async (planId: string): Promise<void> => {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter((request) =>
+          request.identifier.startsWith(planReminderPrefix(planId)),
+        )
+        .map((request) =>
+          Notifications.cancelScheduledNotificationAsync(request.identifier),
+        ),
+    );
+  } catch (error) {
+    console.error('Cancel plan reminders error:', error);
+  }
+};
+
+/**
+ * Replace a plan's reminders with ones counted from its latest session
+ */
+export const schedulePlanReminders = async (
+  plan: RehabPlan,
+  lastSessionAt: Date | null,
+): Promise<void> => {
+  await cancelPlanReminders(plan.id);
+
+  try {
+    const { granted } = await Notifications.getPermissionsAsync();
+    if (!granted || plan.status !== 'active') return;
+
+    const time = await getReminderTime();
+    const dates = getReminderTimes(plan, lastSessionAt, time, new Date());
+
+    await Promise.all(
+      dates.map((date, index) =>
+        Notifications.scheduleNotificationAsync({
+          identifier: `${planReminderPrefix(plan.id)}${index}`,
+          content: {
+            title: 'Time for your session!',
+            body: `${plan.protocolName} is due today.`,
+            data: { planId: plan.id },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date,
+            channelId: REMINDER_CHANNEL_ID,
+          },
+        }),
+      ),
+    );
+  } catch (error) {
+    console.error('Schedule plan reminders error:', error);
+  }
+};
+
+/**
+ * Bring scheduled reminders in line with the user's conditions: active
+ * conditions get reminders for their plan, paused or resolved ones lose them.
+ * Sessions still waiting in the outbox count as done.
+ */
+export const syncReminders = async (
+  userId: string,
+  conditions: Condition[],
+): Promise<void> => {
+  const activePlanIds = new Set(
+    conditions
+      .filter((condition) => condition.status === 'active')
+      .map((condition) => condition.activePlanId)
+      .filter((planId): planId is string => !!planId),
+  );
+
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const stalePlanIds = new Set(
+      scheduled
+        .map((request) => request.identifier.split(':'))
+        .filter(
+          ([prefix, planId]) =>
+            prefix === REMINDER_ID_PREFIX && !activePlanIds.has(planId),
+        )
+        .map(([, planId]) => planId),
+    );
+    await Promise.all([...stalePlanIds].map(cancelPlanReminders));
+
+    const pending = await getOutboxEntries(userId);
+
+    for (const planId of activePlanIds) {
+      const plan = await getPlan(planId);
+      if (!plan) continue;
+
+      const logs = await getSessionLogsForPlan(userId, planId);
+      const sessionTimes = [
+        ...logs.map((log) => log.completedAt.getTime()),
+        ...pending.flatMap((entry) =>
+          entry.kind === 'sessionLog' && entry.session.planId === planId
+            ? [entry.session.completedAt.getTime()]
+            : [],
+        ),
+      ];
+      const lastSessionAt =
+        sessionTimes.length > 0 ? new Date(Math.max(...sessionTimes)) : null;
+
+      await schedulePlanReminders(plan, lastSessionAt);
+    }
+  } catch (error) {
+    console.error('Sync reminders error:', error);
+  }
+};
+
+/**
+ * Remove every reminder, e.g. on sign-out
+ */
+export const cancelAllReminders = async (): Promise<void> => {
+  try {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  } catch (error) {
+    console.error('Cancel all reminders error:', error);
+  }
+};
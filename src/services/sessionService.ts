@@ -0,0 +1,202 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  getCountFromServer,
+  query,
+  where,
+  Timestamp,
+  DocumentData,
+} from 'firebase/firestore';
+import { db } from '@/config/firebase';
+
+/**
+ * Session Log Service
+ * Handles the `sessionLogs` collection (one doc per completed session)
+ */
+
+export interface SessionLog {
+  id: string;
+  userId: string;
+  planId: string;
+  conditionId: string;
+
+  completedAt: Date;
+
+  prePainScore: number;
+  postPainScore: number;
+
+  exercisesCompleted: string[];
+  notes?: string;
+
+  sessionNumber: number;
+  weekNumber: number;
+}
+
+export type NewSessionLog = Omit<
+  SessionLog,
+  'id' | 'sessionNumber' | 'weekNumber'
+>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const sessionLogsRef = collection(db, 'sessionLogs');
+
+/**
+ * 1-indexed plan week a session falls in, based on the plan's start date
+ */
+export const getWeekNumber = (startDate: Date, completedAt: Date): number => {
+  const elapsedDays = Math.floor(
+    (completedAt.getTime() - startDate.getTime()) / MS_PER_DAY,
+  );
+  return Math.max(1, Math.floor(elapsedDays / 7) + 1);
+};
+
+/**
+ * Check a pain score is a whole number on the 0-10 scale
+ */
+export const isValidPainScore = (score: number): boolean => {
+  return Number.isInteger(score) && score >= 0 && score <= 10;
+};
+
+/**
+ * Convert a Firestore document into a SessionLog
+ */
+const toSessionLog = (id: string, data: DocumentData): SessionLog => {
+  return {
+    ...data,
+    id,
+    completedAt: data.completedAt?.toDate(),
+  } as SessionLog;
+};
+
+/**
+ * Write a session log, numbering it after the plan's existing sessions.
+ * The id is generated by the caller so retries never create duplicates: a log
+ * that already exists is returned as stored.
+ */
+export const logSession = async (
+  logId: string,
+  session: NewSessionLog,
+  planStartDate: Date,
+): Promise<SessionLog> => {
+  if (
+    !isValidPainScore(session.prePainScore) ||
+    !isValidPainScore(session.postPainScore)
+  ) {
+    throw new Error('Pain scores must be between 0 and 10.');
+  }
+
+  try {
+    const logRef = doc(db, 'sessionLogs', logId);
+    const stored = await getDoc(logRef);
+    if (stored.exists()) {
+      return toSessionLog(stored.id, stored.data());
+    }
+
+    const existing = await getCountFromServer(
+      query(
+        sessionLogsRef,
+        where('userId', '==', session.userId),
+        where('planId', '==', session.planId),
+      ),
+    );
+
+    const log: SessionLog = {
+      ...session,
+      id: logId,
+      sessionNumber: existing.data().count + 1,
+      weekNumber: getWeekNumber(planStartDate, session.completedAt),
+    };
+
+    const { id: _id, notes, ...fields } = log;
+    await setDoc(logRef, {
+      ...fields,
+      ...(notes ? { notes } : {}),
+      completedAt: Timestamp.fromDate(session.completedAt),
+    });
+
+    return log;
+  } catch (error) {
+    console.error('Log session error:', error);
+    throw new Error('Failed to save your session. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Get a single session log by id
+ */
+export const getSessionLog = async (
+  logId: string,
+): Promise<SessionLog | null> => {
+  try {
+    const logDoc = await getDoc(doc(db, 'sessionLogs', logId));
+    return logDoc.exists() ? toSessionLog(logDoc.id, logDoc.data()) : null;
+  } catch (error) {
+    console.error('Get session log error:', error);
+    return null;
+  }
+};
+
+/**
+ * Get all session logs for a plan, oldest first
+ */
+export const getSessionLogsForPlan = async (
+  userId: string,
+  planId: string,
+): Promise<SessionLog[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(
+        sessionLogsRef,
+        where('userId', '==', userId),
+        where('planId', '==', planId),
+      ),
+    );
+
+    // Sorted here rather than in the query to avoid a composite index
+    return snapshot.docs
+      .map((logDoc) => toSessionLog(logDoc.id, logDoc.data()))
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+  } catch (error) {
+    console.error('Get session logs error:', error);
+    throw new Error('Failed to load your sessions. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Get every session log for a user, across all plans, oldest first. Throws if
+ * they can't be read.
+ */
+export const getSessionLogsForUser = async (
+  userId: string,
+): Promise<SessionLog[]> => {
+  try {
+    const snapshot = await getDocs(
+      query(sessionLogsRef, where('userId', '==', userId)),
+    );
+
+    // Sorted here rather than in the query to avoid a composite index
+    return snapshot.docs
+      .map((logDoc) => toSessionLog(logDoc.id, logDoc.data()))
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+  } catch (error) {
+    console.error('Get session logs error:', error);
+    throw new Error('Failed to load your sessions. Please try again.', {
+      cause: error,
+    });
+  }
+};
+
+/**
+ * Generate a client-side id for a new session log
+ */
+export const createSessionLogId = (): string => {
+  return doc(sessionLogsRef).id;
+};
@@ -0,0 +1,96 @@
+import { useOutboxStore } from '@/stores/outboxStore';
+import {
+  flushOutbox,
+  getRejectedOutboxEntries,
+  getRetryDelay,
+  OutboxEntry,
+} from '@/services/outboxService';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+}));
+jest.mock('@/services/outboxService', () => ({
+  enqueueOutboxItem: jest.fn(),
+  flushOutbox: jest.fn(),
+  getOutboxEntries: jest.fn(async () => []),
+  getRejectedOutboxEntries: jest.fn(async () => []),
+  getRetryDelay: jest.fn(() => 5000),
+}));
+
+const mockFlushOutbox = flushOutbox as jest.MockedFunction<typeof flushOutbox>;
+const mockGetRejected = getRejectedOutboxEntries as jest.MockedFunction<
+  typeof getRejectedOutboxEntries
+>;
+
+const pending = (attempts: number): OutboxEntry => ({
+  kind: 'painCheckIn',
+  id: 'check-in-1',
+  queuedAt: new Date(),
+  attempts,
+  checkIn: {
+    userId: 'user-1',
+    conditionId: 'condition-1',
+    planId: 'plan-1',
+    painScore: 4,
+    context: 'pre-session',
+    recordedAt: new Date(),
+  },
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  mockFlushOutbox.mockReset();
+  useOutboxStore.getState().start('user-1');
+});
+
+afterEach(() => {
+  useOutboxStore.getState().stop();
+  jest.useRealTimers();
+});
+
+describe('outbox store flush', () => {
+  it('retries after the backoff delay when a replay hit a transient error', async () => {
+    mockFlushOutbox
+      .mockResolvedValueOnce([pending(1)])
+      .mockResolvedValueOnce([]);
+
+    await useOutboxStore.getState().flush();
+    expect(getRetryDelay).toHaveBeenCalledWith(1);
+    expect(useOutboxStore.getState().pendingIds).toEqual(['check-in-1']);
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(mockFlushOutbox).toHaveBeenCalledTimes(2);
+    expect(useOutboxStore.getState().pendingIds).toEqual([]);
+  });
+
+  it('does not schedule a retry once everything is sent', async () => {
+    mockFlushOutbox.mockResolvedValue([]);
+
+    await useOutboxStore.getState().flush();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(mockFlushOutbox).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the pending retry on sign-out', async () => {
+    mockFlushOutbox.mockResolvedValue([pending(1)]);
+
+    await useOutboxStore.getState().flush();
+    useOutboxStore.getState().stop();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(mockFlushOutbox).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports rejected entries', async () => {
+    mockFlushOutbox.mockResolvedValue([]);
+    mockGetRejected.mockResolvedValueOnce([
+      { ...pending(0), rejectedAt: new Date(), reason: 'denied' },
+    ]);
+
+    await useOutboxStore.getState().flush();
+
+    expect(useOutboxStore.getState().rejectedCount).toBe(1);
+  });
+});
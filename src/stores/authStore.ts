@@ -6,6 +6,9 @@ interface User {
   displayName: string;
   subscriptionStatus?: 'free' | 'active' | 'cancelled' | 'expired';
   subscriptionTier?: 'monthly' | 'annual' | null;
+  subscriptionEndDate?: Date | null;
+  // Email/password account whose address hasn't been confirmed yet
+  needsEmailVerification?: boolean;
 }
 
 interface AuthState {
@@ -13,7 +16,12 @@ interface AuthState {
   loading: boolean;
   setUser: (user: User | null) => void;
   setLoading: (loading: boolean) => void;
-  updateSubscriptionStatus: (status: User['subscriptionStatus'], tier?: User['subscriptionTier']) => void;
+  updateSubscriptionStatus: (
+    status: User['subscriptionStatus'],
+    tier?: User['subscriptionTier'],
+    endDate?: User['subscriptionEndDate']
+  ) => void;
+  markEmailVerified: () => void;
   signOut: () => void;
 }
 
@@ -22,11 +30,20 @@ export const useAuthStore = create<AuthState>((set) => ({
   loading: true,
   setUser: (user) => set({ user }),
   setLoading: (loading) => set({ loading }),
-  updateSubscriptionStatus: (status, tier) =>
+  updateSubscriptionStatus: (status, tier, endDate) =>
     set((state) => ({
       user: state.user
-        ? { ...state.user, subscriptionStatus: status, subscriptionTier: tier }
+        ? {
+            ...state.user,
+            subscriptionStatus: status,
+            subscriptionTier: tier,
+            subscriptionEndDate: endDate ?? state.user.subscriptionEndDate,
+          }
         : null,
     })),
+  markEmailVerified: () =>
+    set((state) => ({
+      user: state.user ? { ...state.user, needsEmailVerification: false } : null,
+    })),
   signOut: () => set({ user: null }),
 }));
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { create } from 'zustand';
+import { Unsubscribe } from 'firebase/firestore';
+import { Condition, subscribeToConditions } from '@/services/conditionService';
+
+interface ConditionState {
+  conditions: Condition[];
+  loading: boolean;
+  error: string | null;
+  subscribe: (userId: string) => void;
+  unsubscribe: () => void;
+}
+
+// Active Firestore listener, kept outside the store so it is never serialized
+let activeSubscription: Unsubscribe | null = null;
+
+export const useConditionStore = create<ConditionState>((set) => ({
+  conditions: [],
+  loading: false,
+  error: null,
+  subscribe: (userId) => {
+    activeSubscription?.();
+    set({ loading: true, error: null });
+
+    activeSubscription = subscribeToConditions(
+      userId,
+      (conditions) => set({ conditions, loading: false }),
+      () =>
+        set({
+          loading: false,
+          error: 'Failed to load your conditions. Please try again.',
+        }),
+    );
+  },
+  unsubscribe: () => {
+    activeSubscription?.();
+    activeSubscription = null;
+    set({ conditions: [], loading: false, error: null });
+  },
+}));
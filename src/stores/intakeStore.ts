@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import { ConversationMessage } from '@/services/conditionService';
+import {
+  completeIntake,
+  getIntakeRedFlags,
+  IntakeProtocol,
+  IntakeQuestion,
+  sendIntakeMessages,
+} from '@/services/intakeService';
+import { recordRedFlagAcknowledgment } from '@/services/acknowledgmentService';
+import { RedFlagMatch } from '@/utils/redFlagScreener';
+
+interface IntakeState {
+  messages: ConversationMessage[];
+  pendingQuestion: IntakeQuestion | null;
+  result: IntakeProtocol | null;
+  redFlags: RedFlagMatch[];
+  acknowledgmentId: string | null;
+  sending: boolean;
+  error: string | null;
+  sendMessage: (content: string) => Promise<void>;
+  acknowledgeRedFlags: (userId: string) => Promise<void>;
+  finishIntake: (userId: string) => Promise<void>;
+  reset: () => void;
+}
+
+export const useIntakeStore = create<IntakeState>((set, get) => ({
+  messages: [],
+  pendingQuestion: null,
+  result: null,
+  redFlags: [],
+  acknowledgmentId: null,
+  sending: false,
+  error: null,
+  sendMessage: async (content) => {
+    const { messages: previousMessages, pendingQuestion } = get();
+    const messages: ConversationMessage[] = [
+      ...previousMessages,
+      { role: 'user', content, timestamp: new Date() },
+    ];
+    set({ messages, pendingQuestion: null, sending: true, error: null });
+
+    try {
+      const response = await sendIntakeMessages(messages);
+      const conversation: ConversationMessage[] = [
+        ...messages,
+        { role: 'assistant', content: response.message, timestamp: new Date() },
+      ];
+
+      set({
+        messages: conversation,
+        pendingQuestion: response.type === 'question' ? response : null,
+        result: response.type === 'protocol' ? response : null,
+        redFlags:
+          response.type === 'protocol'
+            ? getIntakeRedFlags(conversation, response.assessment).matches
+            : [],
+        acknowledgmentId: null,
+      });
+    } catch (error: any) {
+      // Drop the unanswered message so a retry doesn't send it twice
+      set({
+        messages: previousMessages,
+        pendingQuestion,
+        error: error.message,
+      });
+    } finally {
+      set({ sending: false });
+    }
+  },
+  acknowledgeRedFlags: async (userId) => {
+    const { redFlags, acknowledgmentId } = get();
+    if (acknowledgmentId) return;
+
+    const id = await recordRedFlagAcknowledgment(
+      userId,
+      redFlags.map((flag) => flag.label),
+    );
+    set({ acknowledgmentId: id });
+  },
+  finishIntake: async (userId) => {
+    const { messages, result, redFlags, acknowledgmentId } = get();
+    if (!result) {
+      throw new Error('Your intake is incomplete. Please start again.');
+    }
+
+    await completeIntake(
+      userId,
+      messages,
+      result,
+      redFlags.map((flag) => flag.label),
+      acknowledgmentId,
+    );
+    get().reset();
+  },
+  reset: () =>
+    set({
+      messages: [],
+      pendingQuestion: null,
+      result: null,
+      redFlags: [],
+      acknowledgmentId: null,
+      sending: false,
+      error: null,
+    }),
+}));
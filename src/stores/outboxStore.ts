@@ -0,0 +1,106 @@
+import { create } from 'zustand';
+import NetInfo, { NetInfoSubscription } from '@react-native-community/netinfo';
+import {
+  enqueueOutboxItem,
+  flushOutbox,
+  getOutboxEntries,
+  getRejectedOutboxEntries,
+  getRetryDelay,
+  OutboxItem,
+} from '@/services/outboxService';
+
+interface OutboxState {
+  userId: string | null;
+  pendingIds: string[];
+  // Entries the server refused; they will not be retried
+  rejectedCount: number;
+  syncing: boolean;
+  start: (userId: string) => void;
+  stop: () => void;
+  enqueue: (item: OutboxItem) => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+// Connectivity listener and retry timer, kept outside the store so they are
+// never serialized
+let activeConnectionListener: NetInfoSubscription | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+};
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  userId: null,
+  pendingIds: [],
+  rejectedCount: 0,
+  syncing: false,
+  start: (userId) => {
+    activeConnectionListener?.();
+    clearRetry();
+    set({ userId, pendingIds: [], rejectedCount: 0, syncing: false });
+
+    getOutboxEntries(userId).then((entries) =>
+      set({ pendingIds: entries.map((entry) => entry.id) }),
+    );
+    getRejectedOutboxEntries(userId).then((entries) =>
+      set({ rejectedCount: entries.length }),
+    );
+
+    // Fires once with the current state, then on every change
+    activeConnectionListener = NetInfo.addEventListener((state) => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        get().flush();
+      }
+    });
+  },
+  stop: () => {
+    activeConnectionListener?.();
+    activeConnectionListener = null;
+    clearRetry();
+    set({ userId: null, pendingIds: [], rejectedCount: 0, syncing: false });
+  },
+  enqueue: async (item) => {
+    await enqueueOutboxItem(item);
+    set((state) => ({
+      pendingIds: state.pendingIds.includes(item.id)
+        ? state.pendingIds
+        : [...state.pendingIds, item.id],
+    }));
+    // Saved locally; the upload happens in the background
+    get().flush();
+  },
+  flush: async () => {
+    const { userId } = get();
+    if (!userId) return;
+
+    clearRetry();
+    set({ syncing: true });
+    try {
+      const remaining = await flushOutbox(userId);
+      const rejected = await getRejectedOutboxEntries(userId);
+      // Ignore results for a user who has signed out meanwhile
+      if (get().userId !== userId) return;
+
+      set({
+        pendingIds: remaining.map((entry) => entry.id),
+        rejectedCount: rejected.length,
+      });
+
+      // The replay stopped on a transient error: try again later, even if
+      // the connection never changes
+      const [next] = remaining;
+      if (next && next.attempts > 0) {
+        retryTimer = setTimeout(
+          () => get().flush(),
+          getRetryDelay(next.attempts),
+        );
+      }
+    } catch (error) {
+      console.error('Outbox sync error:', error);
+    } finally {
+      set({ syncing: false });
+    }
+  },
+}));
@@ -0,0 +1,194 @@
+import type { PlanExercise } from '@/services/planService';
+import type { PainSample } from '@/utils/recoveryAnalytics';
+import {
+  buildExerciseChanges,
+  evaluateAdaptation,
+  findEasierVariant,
+} from '@/utils/adaptationEngine';
+
+const exercise = (
+  name: string,
+  sets: number,
+  reps = '10-12',
+): PlanExercise => ({
+  id: `ex-${sets}`,
+  name,
+  description: `Do the ${name.toLowerCase()}.`,
+  sets,
+  reps,
+  notes: 'Keep it slow.',
+  exerciseDbId: '0042',
+  exerciseDbGifUrl: 'https://example.com/bridge.gif',
+  order: 1,
+});
+
+describe('buildExerciseChanges', () => {
+  it('adds a set when progressing', () => {
+    const { exercises, changes } = buildExerciseChanges(
+      [exercise('Glute Bridge', 2)],
+      'progress',
+    );
+
+    expect(exercises[0].sets).toBe(3);
+    expect(changes[0]).toMatchObject({ field: 'sets', from: '2', to: '3' });
+  });
+
+  it('drops a set before anything else when regressing', () => {
+    const { changes } = buildExerciseChanges(
+      [exercise('Glute Bridge', 3)],
+      'regress',
+    );
+
+    expect(changes[0]).toMatchObject({ field: 'sets', from: '3', to: '2' });
+  });
+
+  it('swaps to the easier variant once down to one set', () => {
+    const { exercises, changes } = buildExerciseChanges(
+      [exercise('Glute Bridge', 1)],
+      'regress',
+    );
+
+    expect(exercises[0]).toMatchObject({
+      id: 'ex-1',
+      name: 'Pelvic Tilts',
+      sets: 1,
+      reps: '10-12',
+      order: 1,
+    });
+    expect(exercises[0].description).toMatch(/lower back/);
+    // Media belonged to the old exercise
+    expect(exercises[0].exerciseDbId).toBeUndefined();
+    expect(exercises[0].exerciseDbGifUrl).toBeUndefined();
+    expect(changes).toEqual([
+      expect.objectContaining({
+        field: 'exercise',
+        from: 'Glute Bridge',
+        to: 'Pelvic Tilts',
+      }),
+    ]);
+  });
+
+  it('reduces reps at one set when there is no easier variant', () => {
+    const { exercises, changes } = buildExerciseChanges(
+      [exercise('Pelvic Tilts', 1, '12')],
+      'regress',
+    );
+
+    expect(exercises[0].name).toBe('Pelvic Tilts');
+    expect(changes[0]).toMatchObject({ field: 'reps', from: '12', to: '9' });
+  });
+});
+
+describe('findEasierVariant', () => {
+  it('matches plan names loosely', () => {
+    expect(findEasierVariant('Straight leg raise')?.name).toBe('Quad Sets');
+  });
+
+  it('is null for exercises outside the catalogue', () => {
+    expect(findEasierVariant('Turkish Get-Up')).toBeNull();
+  });
+});
+
+describe('evaluateAdaptation', () => {
+  const PLAN_START = new Date('2025-01-06T00:00:00Z');
+  // Two weeks in, so the window is the full last week
+  const NOW = new Date('2025-01-20T00:00:00Z');
+
+  const plan = {
+    exercises: [exercise('Glute Bridge', 2)],
+    frequency: '3-4 times per week',
+    startDate: PLAN_START,
+  };
+
+  const session = (
+    daysAgo: number,
+    prePainScore: number,
+    postPainScore: number,
+  ): PainSample => ({
+    completedAt: new Date(NOW.getTime() - daysAgo * 24 * 60 * 60 * 1000),
+    prePainScore,
+    postPainScore,
+  });
+
+  it('progresses on exactly the prescribed sessions with falling pain', () => {
+    const result = evaluateAdaptation(
+      plan,
+      [session(6, 6, 5), session(4, 5, 4), session(2, 4, 3)],
+      NOW,
+    );
+
+    expect(result.decision).toBe('progress');
+    expect(result.reason).toMatch(/Pain is falling/);
+    expect(result.exercises[0].sets).toBe(3);
+  });
+
+  it('holds when pain is falling but sessions were missed', () => {
+    const result = evaluateAdaptation(
+      { ...plan, frequency: '5 times per week' },
+      [session(6, 6, 5), session(4, 5, 4), session(2, 4, 3)],
+      NOW,
+    );
+
+    expect(result.decision).toBe('hold');
+    expect(result.reason).toMatch(/3 of 5 planned sessions/);
+    expect(result.changes).toEqual([]);
+  });
+
+  it('holds when pain is steady', () => {
+    const result = evaluateAdaptation(
+      plan,
+      [session(6, 4, 3), session(4, 4, 3), session(2, 4, 3)],
+      NOW,
+    );
+
+    expect(result).toMatchObject({
+      decision: 'hold',
+      reason: 'Pain is steady. Keeping the current plan.',
+    });
+  });
+
+  it('holds when adherence is too low to judge', () => {
+    const result = evaluateAdaptation(
+      { ...plan, frequency: 'daily' },
+      [session(6, 6, 5), session(4, 5, 4), session(2, 4, 3)],
+      NOW,
+    );
+
+    expect(result.decision).toBe('hold');
+    expect(result.reason).toMatch(/3 of 7 planned sessions/);
+  });
+
+  it('holds with too few sessions this week', () => {
+    const result = evaluateAdaptation(
+      plan,
+      [session(10, 6, 5), session(2, 4, 3)],
+      NOW,
+    );
+
+    expect(result.decision).toBe('hold');
+    expect(result.reason).toMatch(/Only 1 session/);
+  });
+
+  it('regresses when sessions leave the user sorer', () => {
+    const result = evaluateAdaptation(
+      plan,
+      [session(6, 4, 6), session(4, 4, 5), session(2, 4, 6)],
+      NOW,
+    );
+
+    expect(result.decision).toBe('regress');
+    expect(result.reason).toMatch(/Pain rose by 1\.7 points/);
+    expect(result.exercises[0].sets).toBe(1);
+  });
+
+  it('regresses when pain before sessions is climbing', () => {
+    const result = evaluateAdaptation(
+      plan,
+      [session(6, 3, 3), session(4, 4, 4), session(2, 5, 5)],
+      NOW,
+    );
+
+    expect(result.decision).toBe('regress');
+    expect(result.reason).toMatch(/climbing/);
+  });
+});
@@ -0,0 +1,221 @@
+import type { Condition } from '@/services/conditionService';
+import type { RehabPlan } from '@/services/planService';
+import type { SessionLog } from '@/services/sessionService';
+import {
+  buildJsonExport,
+  buildPrintableSummary,
+  buildSessionLogsCsv,
+  ExportData,
+} from '@/utils/dataExport';
+
+const CONDITION: Condition = {
+  id: 'condition-1',
+  userId: 'user-1',
+  status: 'active',
+  bodyRegion: 'lower_back',
+  primaryLimitation: 'mobility',
+  symptomType: 'dull_ache',
+  severity: 'mild',
+  redFlags: [],
+  initialDescription: 'My back is stiff',
+  conversationHistory: [],
+  createdAt: new Date('2025-01-05T10:00:00Z'),
+  activePlanId: 'plan-1',
+};
+
+const PLAN: RehabPlan = {
+  id: 'plan-1',
+  conditionId: 'condition-1',
+  userId: 'user-1',
+  protocolName: 'Back <Reset> & Mobility',
+  description: 'Gentle mobility',
+  startDate: new Date('2025-01-06T00:00:00Z'),
+  targetDurationWeeks: 2,
+  currentWeek: 1,
+  frequency: '3-4 times per week',
+  exercises: [
+    {
+      id: 'ex-1',
+      name: 'Cat-Cow, "slow"',
+      description: 'Arch and round your back.',
+      sets: 2,
+      reps: '10-12',
+      notes: '',
+      order: 0,
+    },
+    {
+      id: 'ex-2',
+      name: '=HYPERLINK("http://evil")',
+      description: 'Not really an exercise.',
+      sets: 2,
+      reps: '10',
+      notes: '',
+      order: 1,
+    },
+  ],
+  safetyNotes: [],
+  progressionNotes: '',
+  disclaimer: '',
+  adaptationHistory: [],
+  status: 'active',
+  createdAt: new Date('2025-01-06T00:00:00Z'),
+};
+
+const log = (id: string, completedAt: string, notes?: string): SessionLog => ({
+  id,
+  userId: 'user-1',
+  planId: 'plan-1',
+  conditionId: 'condition-1',
+  completedAt: new Date(completedAt),
+  prePainScore: 5,
+  postPainScore: 3,
+  exercisesCompleted: ['ex-1', 'ex-2'],
+  ...(notes !== undefined ? { notes } : {}),
+  sessionNumber: 1,
+  weekNumber: 1,
+});
+
+const data = (overrides: Partial<ExportData> = {}): ExportData => ({
+  exportedAt: new Date('2025-01-20T12:00:00Z'),
+  profile: { uid: 'user-1', email: 'sam@example.com', displayName: 'Sam' },
+  conditions: [CONDITION],
+  plans: [PLAN],
+  sessionLogs: [],
+  painCheckIns: [],
+  ...overrides,
+});
+
+const csvRows = (csv: string): string[] => csv.split('\r\n').slice(1, -1);
+
+describe('buildJsonExport', () => {
+  it('bundles everything with ISO dates and sessions oldest first', () => {
+    const bundle = JSON.parse(
+      buildJsonExport(
+        data({
+          sessionLogs: [
+            log('log-2', '2025-01-08T09:00:00Z'),
+            log('log-1', '2025-01-06T09:00:00Z'),
+          ],
+          painCheckIns: [
+            {
+              id: 'check-in-1',
+              userId: 'user-1',
+              conditionId: 'condition-1',
+              planId: 'plan-1',
+              painScore: 4,
+              context: 'pre-session',
+              recordedAt: new Date('2025-01-06T08:55:00Z'),
+            },
+          ],
+        }),
+      ),
+    );
+
+    expect(bundle).toMatchObject({
+      format: 'recoverly-export',
+      version: 2,
+      exportedAt: '2025-01-20T12:00:00.000Z',
+      profile: { email: 'sam@example.com' },
+      conditions: [{ id: 'condition-1' }],
+      plans: [{ id: 'plan-1' }],
+      painCheckIns: [
+        { id: 'check-in-1', recordedAt: '2025-01-06T08:55:00.000Z' },
+      ],
+    });
+    expect(bundle.sessionLogs.map((entry: SessionLog) => entry.id)).toEqual([
+      'log-1',
+      'log-2',
+    ]);
+  });
+});
+
+describe('buildSessionLogsCsv', () => {
+  it('writes a header and one row per session', () => {
+    const csv = buildSessionLogsCsv(
+      data({
+        sessionLogs: [log('log-1', '2025-01-06T09:00:00Z', 'Felt good')],
+      }),
+    );
+
+    expect(csv.split('\r\n')[0]).toBe(
+      'Date,Condition,Protocol,Session,Week,Pain Before,Pain After,Pain Change,Exercises Completed,Notes',
+    );
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csvRows(csv)[0]).toMatch(
+      /^2025-01-06T09:00:00\.000Z,lower back,Back <Reset> & Mobility,1,1,5,3,-2,/,
+    );
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const csv = buildSessionLogsCsv(
+      data({
+        sessionLogs: [log('log-1', '2025-01-06T09:00:00Z', 'Sore, then\nfine')],
+      }),
+    );
+
+    expect(csv).toContain(',"Cat-Cow, ""slow""; ');
+    expect(csv).toContain(',"Sore, then\nfine"\r\n');
+  });
+
+  it.each(['=1+1', '+1', '-1', '@SUM(A1)'])(
+    'defuses the formula cell "%s"',
+    (notes) => {
+      const csv = buildSessionLogsCsv(
+        data({ sessionLogs: [log('log-1', '2025-01-06T09:00:00Z', notes)] }),
+      );
+
+      expect(csvRows(csv)[0].endsWith(`,'${notes}`)).toBe(true);
+    },
+  );
+
+  it('defuses a formula that also needs quoting', () => {
+    const csv = buildSessionLogsCsv(
+      data({
+        sessionLogs: [
+          {
+            ...log('log-1', '2025-01-06T09:00:00Z'),
+            exercisesCompleted: ['ex-2'],
+          },
+        ],
+      }),
+    );
+
+    expect(csvRows(csv)[0]).toContain(`,"'=HYPERLINK(""http://evil"")",`);
+  });
+});
+
+describe('buildPrintableSummary', () => {
+  it('escapes user text in the HTML', () => {
+    const html = buildPrintableSummary(
+      data({
+        profile: {
+          uid: 'user-1',
+          email: 'sam@example.com',
+          displayName: '<script>alert("hi")</script>',
+        },
+      }),
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain(
+      '&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt;',
+    );
+    expect(html).toContain('<h3>Back &lt;Reset&gt; &amp; Mobility</h3>');
+  });
+
+  it('lists each plan with its session history', () => {
+    const html = buildPrintableSummary(
+      data({ sessionLogs: [log('log-1', '2025-01-06T09:00:00Z')] }),
+    );
+
+    expect(html).toContain('<h2>lower back</h2>');
+    expect(html).toContain('1 session completed · pain 5 → 3');
+    expect(html).toContain('<td>2025-01-06</td>');
+  });
+
+  it('says so when there are no conditions', () => {
+    expect(buildPrintableSummary(data({ conditions: [] }))).toContain(
+      'No conditions recorded.',
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { getEntitlement, Clock } from '@/utils/entitlements';
+
+const at =
+  (iso: string): Clock =>
+  () =>
+    new Date(iso);
+
+describe('getEntitlement', () => {
+  it('treats a missing profile as free', () => {
+    expect(getEntitlement(null)).toEqual({
+      access: 'free',
+      hasProtocolAccess: false,
+      accessEndsAt: null,
+    });
+  });
+
+  it('gives an active subscription access with no end date', () => {
+    const entitlement = getEntitlement(
+      {
+        subscriptionStatus: 'active',
+        subscriptionEndDate: new Date('2020-01-01T00:00:00Z'),
+      },
+      at('2030-01-01T00:00:00Z'),
+    );
+
+    expect(entitlement.access).toBe('active');
+    expect(entitlement.hasProtocolAccess).toBe(true);
+    expect(entitlement.accessEndsAt).toBeNull();
+  });
+
+  describe('trial cancelled before it converts', () => {
+    // A trialing subscription set to cancel is stored as cancelled with the
+    // trial's end as subscriptionEndDate
+    const trialEnd = new Date('2025-03-08T12:00:00Z');
+    const subscription = {
+      subscriptionStatus: 'cancelled' as const,
+      subscriptionEndDate: trialEnd,
+    };
+
+    it('keeps access up to the last moment of the trial', () => {
+      const entitlement = getEntitlement(
+        subscription,
+        at('2025-03-08T11:59:59.999Z'),
+      );
+
+      expect(entitlement.access).toBe('grace');
+      expect(entitlement.hasProtocolAccess).toBe(true);
+      expect(entitlement.accessEndsAt).toEqual(trialEnd);
+    });
+
+    it('ends access exactly when the trial ends', () => {
+      const entitlement = getEntitlement(
+        subscription,
+        at('2025-03-08T12:00:00Z'),
+      );
+
+      expect(entitlement.access).toBe('expired');
+      expect(entitlement.hasProtocolAccess).toBe(false);
+    });
+  });
+
+  describe('cancelled but not yet expired', () => {
+    const endDate = new Date('2025-06-30T00:00:00Z');
+
+    it('is a grace period until subscriptionEndDate', () => {
+      expect(
+        getEntitlement(
+          { subscriptionStatus: 'cancelled', subscriptionEndDate: endDate },
+          at('2025-06-01T00:00:00Z'),
+        ),
+      ).toEqual({
+        access: 'grace',
+        hasProtocolAccess: true,
+        accessEndsAt: endDate,
+      });
+    });
+
+    it('expires once subscriptionEndDate has passed', () => {
+      expect(
+        getEntitlement(
+          { subscriptionStatus: 'cancelled', subscriptionEndDate: endDate },
+          at('2025-07-01T00:00:00Z'),
+        ).access,
+      ).toBe('expired');
+    });
+
+    it('has no grace period without an end date', () => {
+      expect(
+        getEntitlement(
+          { subscriptionStatus: 'cancelled', subscriptionEndDate: null },
+          at('2025-06-01T00:00:00Z'),
+        ).hasProtocolAccess,
+      ).toBe(false);
+    });
+  });
+
+  it('gives an expired subscription no access even before its end date', () => {
+    const entitlement = getEntitlement(
+      {
+        subscriptionStatus: 'expired',
+        subscriptionEndDate: new Date('2025-06-30T00:00:00Z'),
+      },
+      at('2025-06-01T00:00:00Z'),
+    );
+
+    expect(entitlement.access).toBe('expired');
+    expect(entitlement.hasProtocolAccess).toBe(false);
+  });
+});
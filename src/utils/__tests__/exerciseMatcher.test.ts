@@ -0,0 +1,105 @@
+import {
+  CatalogExercise,
+  findBestMatch,
+  MIN_MATCH_SCORE,
+  nameSimilarity,
+  normalizeExerciseName,
+  toBodyPartWords,
+} from '@/utils/exerciseMatcher';
+
+const entry = (
+  id: string,
+  name: string,
+  bodyParts: string[],
+  aliases?: string[],
+): CatalogExercise => ({
+  id,
+  name,
+  bodyParts,
+  instructions: [`Do the ${name.toLowerCase()}.`],
+  ...(aliases ? { aliases } : {}),
+});
+
+const CATALOG: CatalogExercise[] = [
+  entry('cat-cow', 'Cat-Cow Stretch', ['back'], ['Cat Camel']),
+  entry('side-plank-back', 'Side Plank', ['lower back']),
+  entry('side-plank-core', 'Side Planks', ['waist']),
+  entry('heel-slide', 'Heel Slides', ['knee']),
+];
+
+describe('normalizeExerciseName', () => {
+  it.each([
+    ['Cat-Cow Stretches', 'cat cow stretch'],
+    ["Child's Pose", 'child pose'],
+    ['The Bridge Exercise', 'bridge'],
+    ['Press', 'press'],
+    ['Squats with a Band', 'squat band'],
+  ])('normalizes "%s"', (name, expected) => {
+    expect(normalizeExerciseName(name)).toBe(expected);
+  });
+});
+
+describe('toBodyPartWords', () => {
+  it('reduces regions and ExerciseDB body parts to the same words', () => {
+    expect(toBodyPartWords('lower_back')).toEqual(['lower', 'back']);
+    expect(toBodyPartWords('glutes')).toEqual(['hip']);
+    expect(toBodyPartWords('waist')).toEqual(['core']);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('is 1 for names that only differ in case, punctuation and plurals', () => {
+    expect(nameSimilarity('Cat/Cow stretch', 'Cat-Cow Stretches')).toBe(1);
+  });
+
+  it('scores close spellings above the match threshold', () => {
+    expect(nameSimilarity('Heel Slide', 'Heel Slides')).toBe(1);
+    expect(nameSimilarity('Heal Slides', 'Heel Slides')).toBeGreaterThan(
+      MIN_MATCH_SCORE,
+    );
+  });
+
+  it('scores unrelated names below the match threshold', () => {
+    expect(nameSimilarity('Bird Dog', 'Heel Slides')).toBeLessThan(
+      MIN_MATCH_SCORE,
+    );
+  });
+
+  it('compares names too short for bigrams exactly', () => {
+    expect(nameSimilarity('A', 'a')).toBe(1);
+    expect(nameSimilarity('A', 'B')).toBe(0);
+  });
+});
+
+describe('findBestMatch', () => {
+  it('matches loosely worded names', () => {
+    expect(
+      findBestMatch('cat/cow stretches', undefined, CATALOG)?.exercise.id,
+    ).toBe('cat-cow');
+  });
+
+  it('matches on an alias', () => {
+    expect(findBestMatch('Cat Camel', undefined, CATALOG)).toEqual({
+      exercise: CATALOG[0],
+      score: 1,
+    });
+  });
+
+  it('uses the body region to pick between equally similar names', () => {
+    expect(findBestMatch('Side Plank', 'lower_back', CATALOG)).toMatchObject({
+      exercise: { id: 'side-plank-back' },
+      score: 1.1,
+    });
+    expect(findBestMatch('Side Plank', 'core', CATALOG)?.exercise.id).toBe(
+      'side-plank-core',
+    );
+  });
+
+  it('does not let the body part bonus rescue a poor name match', () => {
+    expect(findBestMatch('Wall Sit', 'knee', CATALOG)).toBeNull();
+  });
+
+  it('is null for an empty catalogue', () => {
+    expect(findBestMatch('Heel Slides', 'knee', [])).toBeNull();
+  });
+});
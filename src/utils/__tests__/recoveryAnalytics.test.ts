@@ -0,0 +1,160 @@
+import {
+  getAdherence,
+  getPainDelta,
+  getPainTrendSlope,
+  getRollingAveragePain,
+  PainSample,
+  parseFrequency,
+} from '@/utils/recoveryAnalytics';
+
+const PLAN_START = new Date('2025-01-06T00:00:00Z');
+
+const session = (
+  day: number,
+  prePainScore: number,
+  postPainScore: number,
+): PainSample => ({
+  completedAt: new Date(PLAN_START.getTime() + day * 24 * 60 * 60 * 1000),
+  prePainScore,
+  postPainScore,
+});
+
+// Five sessions two days apart with pain easing, stored out of order
+const IMPROVING: PainSample[] = [
+  session(4, 6, 4),
+  session(0, 7, 5),
+  session(8, 4, 2),
+  session(2, 6, 5),
+  session(6, 5, 3),
+];
+
+const WORSENING: PainSample[] = [session(0, 3, 4), session(3, 5, 6)];
+
+describe('getPainDelta', () => {
+  it('compares the first pre-session score with the latest post-session one', () => {
+    expect(getPainDelta(IMPROVING)).toEqual({
+      first: 7,
+      latest: 2,
+      change: -5,
+      direction: 'improving',
+    });
+  });
+
+  it('reports worsening pain', () => {
+    expect(getPainDelta(WORSENING)).toEqual({
+      first: 3,
+      latest: 6,
+      change: 3,
+      direction: 'worsening',
+    });
+  });
+
+  it('reports no change', () => {
+    expect(getPainDelta([session(0, 4, 4)])?.direction).toBe('unchanged');
+  });
+
+  it('is null before the first session', () => {
+    expect(getPainDelta([])).toBeNull();
+  });
+});
+
+describe('getRollingAveragePain', () => {
+  it('averages pre-session pain over a trailing window, oldest first', () => {
+    expect(
+      getRollingAveragePain(IMPROVING).map((point) => point.average),
+    ).toEqual([7, 6.5, 6.33, 5.67, 5]);
+  });
+
+  it('returns one point per session in date order', () => {
+    expect(
+      getRollingAveragePain(IMPROVING).map((point) => point.completedAt),
+    ).toEqual([0, 2, 4, 6, 8].map((day) => session(day, 0, 0).completedAt));
+  });
+
+  it('treats a window below one as one', () => {
+    expect(
+      getRollingAveragePain(WORSENING, 0).map((point) => point.average),
+    ).toEqual([3, 5]);
+  });
+});
+
+describe('getPainTrendSlope', () => {
+  it('gives the least-squares slope in points per week', () => {
+    expect(getPainTrendSlope(IMPROVING)).toBe(-2.45);
+  });
+
+  it('is positive when pain rises', () => {
+    expect(getPainTrendSlope(WORSENING)).toBeGreaterThan(0);
+  });
+
+  it('is null with fewer than two sessions', () => {
+    expect(getPainTrendSlope([session(0, 5, 4)])).toBeNull();
+  });
+
+  it('is null when every session happened at the same moment', () => {
+    expect(getPainTrendSlope([session(1, 5, 4), session(1, 3, 2)])).toBeNull();
+  });
+});
+
+describe('parseFrequency', () => {
+  it.each([
+    ['3-4 times per week', 3, 4],
+    ['2x/week', 2, 2],
+    ['twice a week', 2, 2],
+    ['once or twice a week', 1, 2],
+    ['daily', 7, 7],
+    ['3 times a day', 7, 7],
+    ['every other day', 3, 4],
+    ['every 2 days', 3.5, 3.5],
+    ['every two days', 3.5, 3.5],
+    ['Every 3 days', 2.33, 2.33],
+    ['every 2-3 days', 2.33, 3.5],
+    ['every 2 weeks', 0.5, 0.5],
+    ['every 1-2 weeks', 0.5, 1],
+  ])('parses "%s"', (frequency, minPerWeek, maxPerWeek) => {
+    expect(parseFrequency(frequency)).toEqual({ minPerWeek, maxPerWeek });
+  });
+
+  it('returns null for text it cannot understand', () => {
+    expect(parseFrequency('as tolerated')).toBeNull();
+    // An interval it can't convert is not a count per week
+    expect(parseFrequency('every 2 months')).toBeNull();
+  });
+});
+
+describe('getAdherence', () => {
+  it('counts the sessions due from the low end of the frequency', () => {
+    // Day 14 of the plan: two weeks at 3 a week
+    expect(
+      getAdherence(
+        IMPROVING,
+        '3-4 times per week',
+        PLAN_START,
+        new Date('2025-01-19T12:00:00Z'),
+      ),
+    ).toEqual({ completed: 5, expected: 6, rate: 0.83 });
+  });
+
+  it('understands "every N days"', () => {
+    expect(
+      getAdherence(
+        IMPROVING,
+        'every 2 days',
+        PLAN_START,
+        new Date('2025-01-19T12:00:00Z'),
+      ),
+    ).toEqual({ completed: 5, expected: 7, rate: 0.71 });
+  });
+
+  it('expects at least one session and caps the rate at 1', () => {
+    expect(
+      getAdherence(IMPROVING, 'once a week', PLAN_START, PLAN_START),
+    ).toEqual({ completed: 5, expected: 1, rate: 1 });
+  });
+
+  it('is null when the frequency cannot be parsed', () => {
+    expect(
+      getAdherence(IMPROVING, 'as tolerated', PLAN_START, PLAN_START),
+    ).toBeNull();
+  });
+});
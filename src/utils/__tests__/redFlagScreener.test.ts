@@ -0,0 +1,70 @@
+import { screenForRedFlags, combineRedFlags } from '@/utils/redFlagScreener';
+
+const flagIds = (...userMessages: string[]): string[] =>
+  screenForRedFlags(
+    userMessages.map((content) => ({ role: 'user' as const, content })),
+  ).matches.map((match) => match.id);
+
+describe('screenForRedFlags', () => {
+  it.each([
+    ['I have no pain but I am numb', 'numbness'],
+    ['no idea why my toes tingle', 'tingling'],
+    ['Not sure but fever too', 'fever'],
+    ['No pain just numb toes', 'numbness'],
+    ['doesnt hurt but my leg is numb', 'numbness'],
+    ["Not much pain, now it's numb", 'numbness'],
+    ['My knee gives way on stairs', 'weakness'],
+  ])('flags "%s"', (message, id) => {
+    expect(flagIds(message)).toContain(id);
+  });
+
+  it.each([
+    ['No numbness', 'numbness'],
+    ["I haven't had any falls", 'trauma'],
+    ["I don't have a fever", 'fever'],
+    ['never any tingling', 'tingling'],
+    ['without weakness', 'weakness'],
+  ])('treats "%s" as negated', (message, id) => {
+    expect(flagIds(message)).not.toContain(id);
+  });
+
+  it('still flags a later mention after a negated one', () => {
+    expect(flagIds('No numbness in my arm. My foot is numb though')).toContain(
+      'numbness',
+    );
+  });
+
+  it('counts yes to an injury question as trauma', () => {
+    const { matches } = screenForRedFlags([
+      { role: 'assistant', content: 'Have you had any recent falls?' },
+      { role: 'user', content: 'Yes, last week' },
+    ]);
+
+    expect(matches.map((match) => match.id)).toContain('trauma');
+  });
+
+  it('flags severe pain from a bare number on the pain scale question', () => {
+    const { redFlags } = screenForRedFlags([
+      { role: 'assistant', content: 'On a scale of 0-10, how bad is it?' },
+      { role: 'user', content: '9' },
+    ]);
+
+    expect(redFlags).toContain('Severe pain (9/10)');
+  });
+
+  it('does not flag moderate pain', () => {
+    expect(flagIds('It is about 5/10')).toEqual([]);
+  });
+});
+
+describe('combineRedFlags', () => {
+  it('adds AI flags without duplicating screener flags', () => {
+    const screening = screenForRedFlags([
+      { role: 'user', content: 'my hand is numb' },
+    ]);
+
+    const combined = combineRedFlags(screening, ['numbness', 'Night sweats']);
+
+    expect(combined.redFlags).toEqual(['Numbness', 'Night sweats']);
+  });
+});
@@ -0,0 +1,68 @@
+import { getReminderTimes, ReminderTime } from '@/utils/reminderSchedule';
+
+// Local times throughout, since reminders fire at the user's time of day
+const day = (date: number, hour = 0, minute = 0) =>
+  new Date(2025, 0, date, hour, minute);
+
+// 3 times a week -> a session every 2 days, plan runs Jan 6 to Feb 3
+const PLAN = {
+  frequency: '3 times per week',
+  startDate: day(6),
+  targetDurationWeeks: 4,
+};
+
+const EVENING: ReminderTime = { hour: 18, minute: 0 };
+
+describe('getReminderTimes', () => {
+  it('reminds on the day the next session is due after the last one', () => {
+    const times = getReminderTimes(
+      PLAN,
+      day(10, 9, 30),
+      EVENING,
+      day(10, 12),
+      3,
+    );
+
+    expect(times).toEqual([day(12, 18), day(14, 18), day(16, 18)]);
+  });
+
+  it('starts from the plan start before any session', () => {
+    const times = getReminderTimes(PLAN, null, EVENING, day(5, 12), 2);
+
+    expect(times).toEqual([day(6, 18), day(8, 18)]);
+  });
+
+  it('moves an overdue session to the next preferred time', () => {
+    // Due on the 8th, and today's reminder time has not passed yet
+    expect(getReminderTimes(PLAN, day(6, 9), EVENING, day(11, 12), 1)).toEqual([
+      day(11, 18),
+    ]);
+    // Today's reminder time has already passed, so tomorrow
+    expect(getReminderTimes(PLAN, day(6, 9), EVENING, day(11, 20), 1)).toEqual([
+      day(12, 18),
+    ]);
+  });
+
+  it('stops at the plan end date', () => {
+    const times = getReminderTimes(PLAN, day(29, 9), EVENING, day(29, 12));
+
+    expect(times).toEqual([day(31, 18), day(33, 18)]);
+  });
+
+  it('schedules nothing once the plan has ended', () => {
+    expect(getReminderTimes(PLAN, day(33, 9), EVENING, day(40, 12))).toEqual(
+      [],
+    );
+  });
+
+  it('schedules nothing for a frequency it cannot parse', () => {
+    expect(
+      getReminderTimes(
+        { ...PLAN, frequency: 'as tolerated' },
+        null,
+        EVENING,
+        day(5, 12),
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,316 @@
+import type {
+  ExerciseChange,
+  PlanExercise,
+  RehabPlan,
+} from '@/services/planService';
+import { BUNDLED_EXERCISES } from '@/constants/exerciseCatalog';
+import { CatalogExercise, findBestMatch } from '@/utils/exerciseMatcher';
+import {
+  Adherence,
+  getPainTrendSlope,
+  PainSample,
+  parseFrequency,
+} from '@/utils/recoveryAnalytics';
+
+/**
+ * Adaptation Engine
+ * Rule-based progress / hold / regress decisions from recent session logs
+ * (gameplan Flow 5). Deterministic and model-free, so plans still adapt when
+ * the AI is unavailable. Changes are sets and reps, or a swap to the bundled
+ * catalogue's easier variant once an exercise is down to one set.
+ */
+
+export type AdaptationDecision = 'progress' | 'hold' | 'regress';
+
+export interface AdaptationResult {
+  decision: AdaptationDecision;
+  reason: string;
+  changes: ExerciseChange[];
+  // The plan's exercises with the changes applied
+  exercises: PlanExercise[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// The rules run weekly and only look at the last week of sessions
+export const ADAPTATION_WINDOW_DAYS = 7;
+const MIN_SESSIONS = 2;
+
+// Pain points per week; beyond these the trend is treated as real
+const FALLING_PAIN_SLOPE = -0.5;
+const RISING_PAIN_SLOPE = 1;
+// Average post-minus-pre pain at which sessions are aggravating
+const AGGRAVATING_SESSION_PAIN = 1;
+const LOW_ADHERENCE = 0.5;
+const PROGRESS_ADHERENCE = 0.8;
+
+const MAX_SETS = 4;
+const PROGRESS_REPS_FACTOR = 1.2;
+const REGRESS_REPS_FACTOR = 0.75;
+
+/**
+ * Scale every number in a reps string, keeping its unit ("10-12" -> "12-14",
+ * "30 seconds" -> "36 seconds")
+ */
+export const scaleReps = (reps: string, factor: number): string =>
+  reps.replace(/\d+/g, (value) =>
+    String(Math.max(1, Math.round(Number(value) * factor))),
+  );
+
+const progressExercise = (
+  exercise: PlanExercise,
+): [PlanExercise, ExerciseChange] => {
+  if (exercise.sets < MAX_SETS) {
+    const sets = exercise.sets + 1;
+    return [
+      { ...exercise, sets },
+      {
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        field: 'sets',
+        from: String(exercise.sets),
+        to: String(sets),
+        reason: 'Added a set to build on your progress.',
+      },
+    ];
+  }
+
+  const reps = scaleReps(exercise.reps, PROGRESS_REPS_FACTOR);
+  return [
+    { ...exercise, reps },
+    {
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      field: 'reps',
+      from: exercise.reps,
+      to: reps,
+      reason: `Already at ${MAX_SETS} sets, so reps go up instead.`,
+    },
+  ];
+};
+
+/**
+ * The bundled catalogue's easier variant of an exercise, or null when the
+ * exercise isn't in the catalogue or has none
+ */
+export const findEasierVariant = (name: string): CatalogExercise | null => {
+  const variantId = findBestMatch(name, undefined, BUNDLED_EXERCISES)?.exercise
+    .easierVariantId;
+  return BUNDLED_EXERCISES.find((entry) => entry.id === variantId) ?? null;
+};
+
+// Same slot in the plan, new movement: the old exercise's media and notes
+// don't carry over
+const swapExercise = (
+  exercise: PlanExercise,
+  variant: CatalogExercise,
+): [PlanExercise, ExerciseChange] => [
+  {
+    id: exercise.id,
+    name: variant.name,
+    description: variant.instructions.join(' '),
+    sets: exercise.sets,
+    reps: exercise.reps,
+    notes: `Easier variant of ${exercise.name}.`,
+    order: exercise.order,
+  },
+  {
+    exerciseId: exercise.id,
+    exerciseName: exercise.name,
+    field: 'exercise',
+    from: exercise.name,
+    to: variant.name,
+    reason: `Down to one set, so ${variant.name} replaces it as a gentler option.`,
+  },
+];
+
+const regressExercise = (
+  exercise: PlanExercise,
+): [PlanExercise, ExerciseChange] => {
+  if (exercise.sets > 1) {
+    const sets = exercise.sets - 1;
+    return [
+      { ...exercise, sets },
+      {
+        exerciseId: exercise.id,
+        exerciseName: exercise.name,
+        field: 'sets',
+        from: String(exercise.sets),
+        to: String(sets),
+        reason: 'Dropped a set to ease the load while pain settles.',
+      },
+    ];
+  }
+
+  const variant = findEasierVariant(exercise.name);
+  if (variant) {
+    return swapExercise(exercise, variant);
+  }
+
+  const reps = scaleReps(exercise.reps, REGRESS_REPS_FACTOR);
+  return [
+    { ...exercise, reps },
+    {
+      exerciseId: exercise.id,
+      exerciseName: exercise.name,
+      field: 'reps',
+      from: exercise.reps,
+      to: reps,
+      reason:
+        'Down to one set with no easier variant, so reps are reduced instead.',
+    },
+  ];
+};
+
+/**
+ * Apply one direction of change to every exercise. Also used when the user
+ * asks to progress at a check-in.
+ */
+export const buildExerciseChanges = (
+  exercises: PlanExercise[],
+  direction: 'progress' | 'regress',
+): { exercises: PlanExercise[]; changes: ExerciseChange[] } => {
+  const adjust = direction === 'progress' ? progressExercise : regressExercise;
+  const results = exercises.map(adjust);
+
+  return {
+    exercises: results.map(([exercise]) => exercise),
+    changes: results
+      .map(([, change]) => change)
+      .filter((change) => change.from !== change.to),
+  };
+};
+
+const hold = (exercises: PlanExercise[], reason: string): AdaptationResult => ({
+  decision: 'hold',
+  reason,
+  changes: [],
+  exercises,
+});
+
+/**
+ * Whether a week has passed since the plan started and since its last
+ * adaptation (automatic or check-in)
+ */
+export const isAdaptationDue = (
+  plan: Pick<RehabPlan, 'startDate' | 'lastAdaptationDate' | 'status'>,
+  now: Date,
+): boolean => {
+  if (plan.status !== 'active' || !plan.startDate) return false;
+
+  const since = plan.lastAdaptationDate ?? plan.startDate;
+  return now.getTime() - since.getTime() >= ADAPTATION_WINDOW_DAYS * MS_PER_DAY;
+};
+
+/**
+ * Sessions done vs. sessions the plan called for over the window itself.
+ * getAdherence also counts the current day, which would stretch the week to
+ * eight days and ask for more sessions than the plan prescribes.
+ */
+const getWindowAdherence = (
+  recent: PainSample[],
+  frequency: string,
+  windowStart: Date,
+  now: Date,
+): Adherence | null => {
+  const target = parseFrequency(frequency);
+  if (!target) return null;
+
+  const windowDays = Math.min(
+    ADAPTATION_WINDOW_DAYS,
+    Math.max(
+      1,
+      Math.ceil((now.getTime() - windowStart.getTime()) / MS_PER_DAY),
+    ),
+  );
+  const expected = Math.max(1, Math.ceil((windowDays / 7) * target.minPerWeek));
+
+  return {
+    completed: recent.length,
+    expected,
+    rate: Math.min(1, recent.length / expected),
+  };
+};
+
+/**
+ * Decide how the plan should change based on the last week of sessions:
+ * - regress when sessions leave the user sorer, or pain is climbing
+ * - hold when adherence is too low to judge, or there is too little data
+ * - progress when pain is falling and the user is keeping up
+ */
+export const evaluateAdaptation = (
+  plan: Pick<RehabPlan, 'exercises' | 'frequency' | 'startDate'>,
+  logs: PainSample[],
+  now: Date,
+): AdaptationResult => {
+  // A plan younger than a week is judged from its start
+  const windowStart = new Date(
+    Math.max(
+      plan.startDate.getTime(),
+      now.getTime() - ADAPTATION_WINDOW_DAYS * MS_PER_DAY,
+    ),
+  );
+  const recent = logs.filter(
+    (log) => log.completedAt.getTime() >= windowStart.getTime(),
+  );
+
+  if (recent.length < MIN_SESSIONS) {
+    return hold(
+      plan.exercises,
+      `Only ${recent.length} ${recent.length === 1 ? 'session' : 'sessions'} this week, not enough to change the plan.`,
+    );
+  }
+
+  // Positive when sessions leave the user sorer than they started
+  const sessionPainChange =
+    recent.reduce(
+      (sum, log) => sum + (log.postPainScore - log.prePainScore),
+      0,
+    ) / recent.length;
+  const slope = getPainTrendSlope(recent);
+
+  if (sessionPainChange >= AGGRAVATING_SESSION_PAIN) {
+    return {
+      decision: 'regress',
+      reason: `Pain rose by ${sessionPainChange.toFixed(1)} points on average after sessions this week.`,
+      ...buildExerciseChanges(plan.exercises, 'regress'),
+    };
+  }
+  if (slope !== null && slope >= RISING_PAIN_SLOPE) {
+    return {
+      decision: 'regress',
+      reason: `Pain before sessions is climbing (about +${slope.toFixed(1)} points a week).`,
+      ...buildExerciseChanges(plan.exercises, 'regress'),
+    };
+  }
+
+  const adherence = getWindowAdherence(
+    recent,
+    plan.frequency,
+    windowStart,
+    now,
+  );
+  if (adherence && adherence.rate < LOW_ADHERENCE) {
+    return hold(
+      plan.exercises,
+      `${adherence.completed} of ${adherence.expected} planned sessions this week. Keeping the plan as is until sessions are more regular.`,
+    );
+  }
+
+  const keepingUp = !adherence || adherence.rate >= PROGRESS_ADHERENCE;
+  if (slope !== null && slope <= FALLING_PAIN_SLOPE) {
+    if (!keepingUp) {
+      return hold(
+        plan.exercises,
+        `Pain is falling, but ${adherence.completed} of ${adherence.expected} planned sessions this week. Keeping the plan until sessions are on track.`,
+      );
+    }
+    return {
+      decision: 'progress',
+      reason: `Pain is falling (about ${slope.toFixed(1)} points a week) and sessions are on track.`,
+      ...buildExerciseChanges(plan.exercises, 'progress'),
+    };
+  }
+
+  return hold(plan.exercises, 'Pain is steady. Keeping the current plan.');
+};
@@ -0,0 +1,216 @@
+import type { UserProfile } from '@/services/authService';
+import type { Condition } from '@/services/conditionService';
+import type { PainCheckIn } from '@/services/painCheckInService';
+import type { RehabPlan } from '@/services/planService';
+import type { SessionLog } from '@/services/sessionService';
+import { getPainDelta } from '@/utils/recoveryAnalytics';
+
+/**
+ * Data Export
+ * Builders for the user's personal data export: a JSON bundle, a CSV of
+ * session logs and a printable HTML summary. Pure (the export time is part of
+ * the data and dates print as ISO) so the same data always gives the same
+ * files.
+ */
+
+export type ExportProfile = Pick<UserProfile, 'uid' | 'email' | 'displayName'> &
+  Partial<Omit<UserProfile, 'uid' | 'email' | 'displayName'>>;
+
+export interface ExportData {
+  exportedAt: Date;
+  profile: ExportProfile;
+  conditions: Condition[];
+  plans: RehabPlan[];
+  sessionLogs: SessionLog[];
+  painCheckIns: PainCheckIn[];
+}
+
+// Bump when the JSON bundle's shape changes
+export const EXPORT_FORMAT_VERSION = 2;
+
+const CSV_COLUMNS = [
+  'Date',
+  'Condition',
+  'Protocol',
+  'Session',
+  'Week',
+  'Pain Before',
+  'Pain After',
+  'Pain Change',
+  'Exercises Completed',
+  'Notes',
+];
+
+const formatDate = (date: Date | undefined): string =>
+  date ? date.toISOString().slice(0, 10) : '';
+
+const formatRegion = (bodyRegion: string): string =>
+  bodyRegion.replace(/_/g, ' ');
+
+const byCompletedAt = (logs: SessionLog[]): SessionLog[] =>
+  [...logs].sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+/**
+ * Everything, machine-readable. Dates serialize as ISO 8601 strings.
+ */
+export const buildJsonExport = (data: ExportData): string =>
+  JSON.stringify(
+    {
+      format: 'recoverly-export',
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: data.exportedAt,
+      profile: data.profile,
+      conditions: data.conditions,
+      plans: data.plans,
+      sessionLogs: byCompletedAt(data.sessionLogs),
+      painCheckIns: data.painCheckIns,
+    },
+    null,
+    2,
+  );
+
+/**
+ * Quote a CSV field when needed, and defuse text a spreadsheet would run as a
+ * formula (=, +, -, @)
+ */
+const toCsvField = (value: string | number): string => {
+  if (typeof value === 'number') return String(value);
+
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * One row per session log, oldest first, for spreadsheets
+ */
+export const buildSessionLogsCsv = (data: ExportData): string => {
+  const plans = new Map(data.plans.map((plan) => [plan.id, plan]));
+  const conditions = new Map(
+    data.conditions.map((condition) => [condition.id, condition]),
+  );
+
+  const rows = byCompletedAt(data.sessionLogs).map((log) => {
+    const plan = plans.get(log.planId);
+    const condition = conditions.get(log.conditionId);
+    const exerciseNames = log.exercisesCompleted.map(
+      (id) =>
+        plan?.exercises.find((exercise) => exercise.id === id)?.name ?? id,
+    );
+
+    return [
+      log.completedAt.toISOString(),
+      condition ? formatRegion(condition.bodyRegion) : '',
+      plan?.protocolName ?? '',
+      log.sessionNumber,
+      log.weekNumber,
+      log.prePainScore,
+      log.postPainScore,
+      log.postPainScore - log.prePainScore,
+      exerciseNames.join('; '),
+      log.notes ?? '',
+    ]
+      .map(toCsvField)
+      .join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderPlan = (plan: RehabPlan, logs: SessionLog[]): string => {
+  const delta = getPainDelta(logs);
+
+  const exercises = plan.exercises
+    .map(
+      (exercise) =>
+        `<tr><td>${escapeHtml(exercise.name)}</td><td>${exercise.sets} × ${escapeHtml(exercise.reps)}</td></tr>`,
+    )
+    .join('');
+
+  const adaptations = plan.adaptationHistory
+    .map(
+      (entry) =>
+        `<li>${formatDate(entry.date)}: ${escapeHtml(entry.action)} – ${escapeHtml(entry.reason)}</li>`,
+    )
+    .join('');
+
+  const sessions = logs
+    .map(
+      (log) =>
+        `<tr><td>${formatDate(log.completedAt)}</td><td>${log.sessionNumber}</td><td>${log.prePainScore}</td><td>${log.postPainScore}</td></tr>`,
+    )
+    .join('');
+
+  return `
+    <h3>${escapeHtml(plan.protocolName)}</h3>
+    <p>${escapeHtml(plan.frequency)}, ${plan.targetDurationWeeks} weeks · started ${formatDate(plan.startDate)} · ${escapeHtml(plan.status)}</p>
+    <p>${logs.length} ${logs.length === 1 ? 'session' : 'sessions'} completed${
+      delta ? ` · pain ${delta.first} → ${delta.latest}` : ''
+    }</p>
+    <table><tr><th>Exercise</th><th>Dosage</th></tr>${exercises}</table>
+    ${adaptations ? `<h4>Plan changes</h4><ul>${adaptations}</ul>` : ''}
+    ${
+      sessions
+        ? `<h4>Sessions</h4><table><tr><th>Date</th><th>#</th><th>Pain before</th><th>Pain after</th></tr>${sessions}</table>`
+        : ''
+    }`;
+};
+
+/**
+ * Printable HTML summary per condition: plan, changes and session history,
+ * for sharing with a physiotherapist
+ */
+export const buildPrintableSummary = (data: ExportData): string => {
+  const conditions = data.conditions
+    .map((condition) => {
+      const plans = data.plans
+        .filter((plan) => plan.conditionId === condition.id)
+        .map((plan) =>
+          renderPlan(
+            plan,
+            byCompletedAt(
+              data.sessionLogs.filter((log) => log.planId === plan.id),
+            ),
+          ),
+        )
+        .join('');
+
+      return `
+        <section>
+          <h2>${escapeHtml(formatRegion(condition.bodyRegion))}</h2>
+          <p>${escapeHtml(condition.primaryLimitation)} · ${escapeHtml(condition.severity)} · ${escapeHtml(condition.status)} · since ${formatDate(condition.createdAt)}</p>
+          ${plans || '<p>No plan yet.</p>'}
+        </section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Recoverly Summary</title>
+    <style>
+      body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; margin: 32px; }
+      h1 { margin-bottom: 4px; }
+      h2 { text-transform: capitalize; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 32px; }
+      table { border-collapse: collapse; width: 100%; margin: 8px 0 16px; }
+      th, td { border: 1px solid #ddd; padding: 6px 8px; text-align: left; font-size: 13px; }
+      .meta, footer { color: #666; font-size: 13px; }
+    </style>
+  </head>
+  <body>
+    <h1>Recoverly Summary</h1>
+    <p class="meta">${escapeHtml(data.profile.displayName)} · ${escapeHtml(data.profile.email)} · exported ${formatDate(data.exportedAt)}</p>
+    ${conditions || '<p>No conditions recorded.</p>'}
+    <footer>Recoverly provides general wellness guidance only and is not a medical device.</footer>
+  </body>
+</html>
+`;
+};
@@ -0,0 +1,66 @@
+import type { UserProfile } from '@/services/authService';
+
+/**
+ * Entitlements
+ * Turns the subscription fields on a user into effective access. Pure and
+ * clock-injected so the grace period logic can be tested at any point in time.
+ */
+
+export type AccessLevel = 'active' | 'grace' | 'expired' | 'free';
+
+export interface Entitlement {
+  access: AccessLevel;
+  hasProtocolAccess: boolean;
+  // When access ends for a cancelled subscription still in its grace period
+  accessEndsAt: Date | null;
+}
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export interface SubscriptionFields {
+  subscriptionStatus?: UserProfile['subscriptionStatus'];
+  subscriptionEndDate?: Date | null;
+}
+
+/**
+ * Compute what a user can access right now
+ * - active: paid and renewing
+ * - grace: cancelled, but paid through subscriptionEndDate
+ * - expired: cancelled past its end date, or expired
+ * - free: never subscribed
+ */
+export const getEntitlement = (
+  subscription: SubscriptionFields | null | undefined,
+  clock: Clock = systemClock,
+): Entitlement => {
+  const status = subscription?.subscriptionStatus || 'free';
+  const endDate = subscription?.subscriptionEndDate;
+
+  switch (status) {
+    case 'active':
+      return { access: 'active', hasProtocolAccess: true, accessEndsAt: null };
+    case 'cancelled':
+      if (endDate && clock().getTime() < endDate.getTime()) {
+        return {
+          access: 'grace',
+          hasProtocolAccess: true,
+          accessEndsAt: endDate,
+        };
+      }
+      return {
+        access: 'expired',
+        hasProtocolAccess: false,
+        accessEndsAt: null,
+      };
+    case 'expired':
+      return {
+        access: 'expired',
+        hasProtocolAccess: false,
+        accessEndsAt: null,
+      };
+    default:
+      return { access: 'free', hasProtocolAccess: false, accessEndsAt: null };
+  }
+};
@@ -0,0 +1,150 @@
+/**
+ * Exercise Matcher
+ * Fuzzy matching of AI-generated exercise names ("Glute Bridges",
+ * "Cat/Cow stretch") to catalogue entries, using the name and the condition's
+ * body region. Pure so the bundled catalogue and remote results rank the same.
+ */
+
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  aliases?: string[];
+  // Region words shared with condition body regions: back, neck, knee, ...
+  bodyParts: string[];
+  instructions: string[];
+  // Gentler catalogue entry a plan can regress to
+  easierVariantId?: string;
+  exerciseDbId?: string;
+  gifUrl?: string;
+}
+
+export interface ExerciseMatch {
+  exercise: CatalogExercise;
+  score: number;
+}
+
+// Below this name similarity a match is more likely wrong than helpful
+export const MIN_MATCH_SCORE = 0.6;
+const BODY_PART_BONUS = 0.1;
+
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'with', 'and', 'exercise']);
+
+// Condition regions ("left_knee", "lower_back") and ExerciseDB body parts
+// and target muscles reduce to the same region words
+const REGION_ALIASES = new Map<string, string>([
+  ['lumbar', 'back'],
+  ['spine', 'back'],
+  ['lats', 'back'],
+  ['cervical', 'neck'],
+  ['traps', 'neck'],
+  ['shoulders', 'shoulder'],
+  ['delts', 'shoulder'],
+  ['pectorals', 'shoulder'],
+  ['hips', 'hip'],
+  ['glutes', 'hip'],
+  ['abductors', 'hip'],
+  ['adductors', 'hip'],
+  ['knees', 'knee'],
+  ['quads', 'knee'],
+  ['hamstrings', 'knee'],
+  ['ankles', 'ankle'],
+  ['calves', 'ankle'],
+  ['abs', 'core'],
+  ['waist', 'core'],
+]);
+
+const singular = (word: string): string => {
+  if (/(ch|sh|x)es$/.test(word)) return word.slice(0, -2);
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss')
+    ? word.slice(0, -1)
+    : word;
+};
+
+/**
+ * Lowercase, drop punctuation, filler words and plurals:
+ * "Cat-Cow Stretches" -> "cat cow stretch"
+ */
+export const normalizeExerciseName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter((word) => word && !FILLER_WORDS.has(word))
+    .map(singular)
+    .join(' ');
+
+/**
+ * Region words for a condition body region or catalogue body part
+ */
+export const toBodyPartWords = (region: string): string[] =>
+  region
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean)
+    .map((word) => REGION_ALIASES.get(word) ?? word);
+
+const bigrams = (text: string): string[] => {
+  const compact = text.replace(/ /g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+};
+
+/**
+ * Dice coefficient over character bigrams of the normalized names (0-1)
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = bigrams(normalizeExerciseName(a));
+  const right = bigrams(normalizeExerciseName(b));
+  if (left.length === 0 || right.length === 0) {
+    return normalizeExerciseName(a) === normalizeExerciseName(b) ? 1 : 0;
+  }
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+};
+
+/**
+ * Best catalogue entry for an exercise name, or null when nothing is close
+ * enough. A shared body part breaks ties between similar names.
+ */
+export const findBestMatch = (
+  name: string,
+  bodyRegion: string | undefined,
+  catalog: CatalogExercise[],
+): ExerciseMatch | null => {
+  const regionWords = bodyRegion ? toBodyPartWords(bodyRegion) : [];
+  let best: ExerciseMatch | null = null;
+
+  for (const exercise of catalog) {
+    const similarity = Math.max(
+      ...[exercise.name, ...(exercise.aliases ?? [])].map((candidate) =>
+        nameSimilarity(name, candidate),
+      ),
+    );
+    if (similarity < MIN_MATCH_SCORE) continue;
+
+    const sharesBodyPart = exercise.bodyParts
+      .flatMap(toBodyPartWords)
+      .some((part) => regionWords.includes(part));
+    const score = similarity + (sharesBodyPart ? BODY_PART_BONUS : 0);
+
+    if (!best || score > best.score) {
+      best = { exercise, score };
+    }
+  }
+
+  return best;
+};
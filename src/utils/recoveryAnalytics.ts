@@ -0,0 +1,273 @@
+import type { SessionLog } from '@/services/sessionService';
+
+/**
+ * Recovery Analytics
+ * Derived metrics over a plan's session logs: pain trend, session relief and
+ * adherence. Pure and deterministic (time is always passed in) so every
+ * screen shows the same numbers for the same logs.
+ */
+
+export type PainSample = Pick<
+  SessionLog,
+  'completedAt' | 'prePainScore' | 'postPainScore'
+>;
+
+export type PainDirection = 'improving' | 'worsening' | 'unchanged';
+
+export interface PainDelta {
+  first: number;
+  latest: number;
+  change: number;
+  direction: PainDirection;
+}
+
+export interface RollingAveragePoint {
+  completedAt: Date;
+  average: number;
+}
+
+export interface SessionRelief {
+  // Mean drop in pain from before to after a session (positive = relief)
+  averageRelief: number;
+  // Share of sessions that ended with less pain than they started
+  relievedShare: number;
+}
+
+export interface FrequencyTarget {
+  minPerWeek: number;
+  maxPerWeek: number;
+}
+
+export interface Adherence {
+  completed: number;
+  expected: number;
+  // completed / expected, capped at 1
+  rate: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_ROLLING_WINDOW = 3;
+
+const WORD_NUMBERS = new Map<string, number>([
+  ['once', 1],
+  ['one', 1],
+  ['twice', 2],
+  ['two', 2],
+  ['three', 3],
+  ['four', 4],
+  ['five', 5],
+  ['six', 6],
+  ['seven', 7],
+]);
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const byCompletedAt = (logs: PainSample[]): PainSample[] =>
+  [...logs].sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+const toDirection = (change: number): PainDirection =>
+  change < 0 ? 'improving' : change > 0 ? 'worsening' : 'unchanged';
+
+/**
+ * Arrow shown next to a pain change
+ */
+export const getDirectionArrow = (direction: PainDirection): string =>
+  direction === 'improving' ? '↓' : direction === 'worsening' ? '↑' : '→';
+
+/**
+ * Where the user started (first session, before) vs. where they are now
+ * (latest session, after). Null until there is a session.
+ */
+export const getPainDelta = (logs: PainSample[]): PainDelta | null => {
+  if (logs.length === 0) return null;
+
+  const sorted = byCompletedAt(logs);
+  const first = sorted[0].prePainScore;
+  const latest = sorted[sorted.length - 1].postPainScore;
+  const change = latest - first;
+
+  return { first, latest, change, direction: toDirection(change) };
+};
+
+/**
+ * Trailing average of pre-session pain over the last `window` sessions,
+ * one point per session
+ */
+export const getRollingAveragePain = (
+  logs: PainSample[],
+  window: number = DEFAULT_ROLLING_WINDOW,
+): RollingAveragePoint[] => {
+  const size = Math.max(1, Math.floor(window));
+  const sorted = byCompletedAt(logs);
+
+  return sorted.map((log, index) => {
+    const slice = sorted.slice(Math.max(0, index - size + 1), index + 1);
+    const total = slice.reduce((sum, item) => sum + item.prePainScore, 0);
+    return {
+      completedAt: log.completedAt,
+      average: round(total / slice.length),
+    };
+  });
+};
+
+/**
+ * Least-squares slope of pre-session pain, in points per week. Negative
+ * means pain is going down. Null with fewer than two sessions or when all
+ * sessions happened at the same moment.
+ */
+export const getPainTrendSlope = (logs: PainSample[]): number | null => {
+  if (logs.length < 2) return null;
+
+  const sorted = byCompletedAt(logs);
+  const origin = sorted[0].completedAt.getTime();
+  const points = sorted.map((log) => ({
+    x: (log.completedAt.getTime() - origin) / (MS_PER_DAY * 7),
+    y: log.prePainScore,
+  }));
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const covariance = points.reduce(
+    (sum, p) => sum + (p.x - meanX) * (p.y - meanY),
+    0,
+  );
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+
+  return variance === 0 ? null : round(covariance / variance);
+};
+
+/**
+ * How much a session helps right away, averaged over the sessions
+ */
+export const getSessionRelief = (logs: PainSample[]): SessionRelief | null => {
+  if (logs.length === 0) return null;
+
+  const drops = logs.map((log) => log.prePainScore - log.postPainScore);
+  const totalDrop = drops.reduce((sum, drop) => sum + drop, 0);
+
+  return {
+    averageRelief: round(totalDrop / logs.length),
+    relievedShare: round(drops.filter((drop) => drop > 0).length / logs.length),
+  };
+};
+
+/**
+ * Parse a plan frequency such as "3-4 times per week", "2x/week", "twice a
+ * week", "daily", "every other day", "every 3 days" or "every 2 weeks" into
+ * sessions per week.
+ * Returns null when the string can't be understood.
+ */
+export const parseFrequency = (frequency: string): FrequencyTarget | null => {
+  // "twice a week" -> "2 a week", "once or twice" -> "1 or 2"
+  const text = frequency
+    .toLowerCase()
+    .trim()
+    .replace(/\b[a-z]+\b/g, (word) => String(WORD_NUMBERS.get(word) ?? word));
+
+  if (/every other day|alternate days/.test(text)) {
+    return { minPerWeek: 3, maxPerWeek: 4 };
+  }
+  // "every 2 days" is 3.5 a week, "every 2-3 days" 2.33-3.5, "every 2
+  // weeks" 0.5. Any other interval ("every 2 months") isn't understood
+  // rather than read as a count per week.
+  const interval = text.match(
+    /every\s+(\d+)(?:\s*(?:-|–|to|or)\s*(\d+))?\s+([a-z]+)/,
+  );
+  if (interval) {
+    const shortest = Number(interval[1]);
+    const longest = Number(interval[2] ?? interval[1]);
+    const daysPerUnit = /^days?$/.test(interval[3])
+      ? 1
+      : /^weeks?$/.test(interval[3])
+        ? 7
+        : null;
+    if (!daysPerUnit || shortest <= 0 || longest <= 0) return null;
+
+    return {
+      minPerWeek: round(7 / (Math.max(shortest, longest) * daysPerUnit)),
+      maxPerWeek: round(7 / (Math.min(shortest, longest) * daysPerUnit)),
+    };
+  }
+  // Several times a day still counts as one session per day
+  if (/\b(daily|every day|each day|a day|per day)\b/.test(text)) {
+    return { minPerWeek: 7, maxPerWeek: 7 };
+  }
+
+  const range = text.match(/(\d+)\s*(?:-|–|to|or)\s*(\d+)/);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    return { minPerWeek: Math.min(min, max), maxPerWeek: Math.max(min, max) };
+  }
+
+  const single = text.match(/(\d+)/);
+  if (single) {
+    const count = Number(single[1]);
+    return { minPerWeek: count, maxPerWeek: count };
+  }
+
+  return null;
+};
+
+/**
+ * Sessions done vs. sessions the plan called for so far, using the low end
+ * of the frequency range. The current day counts as elapsed.
+ * Null when the frequency can't be parsed.
+ */
+export const getAdherence = (
+  logs: PainSample[],
+  frequency: string,
+  startDate: Date,
+  now: Date,
+): Adherence | null => {
+  const target = parseFrequency(frequency);
+  if (!target) return null;
+
+  const elapsedDays = Math.max(
+    1,
+    Math.floor((now.getTime() - startDate.getTime()) / MS_PER_DAY) + 1,
+  );
+  const expected = Math.max(
+    1,
+    Math.ceil((elapsedDays / 7) * target.minPerWeek),
+  );
+  const completed = logs.length;
+
+  return {
+    completed,
+    expected,
+    rate: round(Math.min(1, completed / expected)),
+  };
+};
+
+/**
+ * Days between sessions implied by the top of the frequency range
+ * (3-4 per week -> every 2 days)
+ */
+export const getSessionGapDays = (target: FrequencyTarget): number =>
+  Math.max(1, Math.round(7 / target.maxPerWeek));
+
+/**
+ * When the next session is due: the plan start before any session, then the
+ * last session plus the gap implied by the top of the frequency range
+ * (3-4 per week -> every 2 days). Null when the frequency can't be parsed.
+ */
+export const getNextSessionDue = (
+  logs: PainSample[],
+  frequency: string,
+  startDate: Date,
+): Date | null => {
+  const target = parseFrequency(frequency);
+  if (!target || target.maxPerWeek < 1) return null;
+  if (logs.length === 0) return startDate;
+
+  const sorted = byCompletedAt(logs);
+  const lastSession = sorted[sorted.length - 1].completedAt;
+  const due = new Date(lastSession);
+  due.setHours(0, 0, 0, 0);
+  due.setDate(due.getDate() + getSessionGapDays(target));
+  return due;
+};
@@ -0,0 +1,215 @@
+/**
+ * Red Flag Screener
+ * Deterministic keyword rules run over the intake conversation so safety never
+ * depends only on the AI noticing red flags
+ */
+
+export interface ScreenerMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface RedFlagMatch {
+  id: string;
+  label: string;
+  reason: string;
+}
+
+export interface RedFlagScreening {
+  redFlags: string[];
+  matches: RedFlagMatch[];
+}
+
+interface KeywordRule {
+  id: string;
+  label: string;
+  pattern: RegExp;
+}
+
+const KEYWORD_RULES: KeywordRule[] = [
+  {
+    id: 'numbness',
+    label: 'Numbness',
+    pattern: /\bnumb(ness)?\b|\bcan'?t feel\b|\bno feeling\b/i,
+  },
+  {
+    id: 'tingling',
+    label: 'Tingling or pins and needles',
+    pattern: /\btingl(e|es|ing|y)\b|\bpins and needles\b/i,
+  },
+  {
+    id: 'weakness',
+    label: 'Muscle weakness',
+    pattern: /\bweak(ness)?\b|\b(gives?|giving|gave) (way|out)\b/i,
+  },
+  {
+    id: 'trauma',
+    label: 'Recent trauma or injury',
+    pattern:
+      /\b(accident|crash|collision|fall|fell|fallen|trauma|injur(y|ies|ed)|fracture[sd]?|broke|broken|dislocat(ed|ion))\b/i,
+  },
+  {
+    id: 'bladder_bowel',
+    label: 'Loss of bladder or bowel control',
+    pattern:
+      /\b(bladder|bowel|incontinen(t|ce)|wet (myself|the bed))\b|\b(can'?t|cannot|couldn'?t) (control|hold) (my )?(pee|urine|poo)\b/i,
+  },
+  {
+    id: 'fever',
+    label: 'Fever with pain',
+    pattern: /\b(fever|feverish|chills|high temperature)\b/i,
+  },
+  {
+    id: 'night_pain',
+    label: 'Pain at night',
+    pattern:
+      /\b(night pain|pain at night|at night|wakes? me( up)?|woke me( up)?|keeps me (up|awake)|can'?t sleep)\b/i,
+  },
+];
+
+// Severe pain threshold on the 0-10 scale
+export const SEVERE_PAIN_THRESHOLD = 8;
+
+// A negation at most two words before a keyword ("no numbness", "haven't had
+// any falls"). Punctuation and but/and/just/now/though end its scope, so "no
+// pain but my foot is numb" still flags numbness.
+const NEGATION_BEFORE =
+  /\b(no|not|never|without|nor|none|haven'?t|hasn'?t|didn'?t|don'?t|doesn'?t)\s+((?!(but|and|just|now|though)\b)[\w']+\s+){0,2}$/i;
+
+const AFFIRMATIVE_ANSWER = /^\s*(yes|yeah|yep|yup|y|i have|i did)\b/i;
+const INJURY_QUESTION = /\b(injur|fall|fell|accident|trauma)/i;
+const PAIN_SCALE_QUESTION = /\b(0\s*-\s*10|scale|out of 10|how bad)\b/i;
+const PAIN_OUT_OF_TEN = /\b(10|[0-9])\s*(\/|out of)\s*10\b/i;
+const BARE_NUMBER = /\b(10|[0-9])\b/;
+
+/**
+ * Find the first non-negated match of a rule in a piece of text
+ */
+const findMatch = (text: string, pattern: RegExp): string | null => {
+  const global = new RegExp(pattern.source, 'gi');
+  let match: RegExpExecArray | null;
+
+  while ((match = global.exec(text)) !== null) {
+    const before = text.slice(0, match.index);
+    if (!NEGATION_BEFORE.test(before)) {
+      return match[0];
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Pull a 0-10 pain score out of an answer, if the user gave one
+ */
+const findPainScore = (answer: string, question?: string): number | null => {
+  const explicit = answer.match(PAIN_OUT_OF_TEN);
+  if (explicit) {
+    return Number(explicit[1]);
+  }
+
+  if (question && PAIN_SCALE_QUESTION.test(question)) {
+    const bare = answer.match(BARE_NUMBER);
+    if (bare) {
+      return Number(bare[1]);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Screen an intake conversation for red flags. Only the user's own words are
+ * scanned; assistant questions are used for context on short answers.
+ */
+export const screenForRedFlags = (
+  messages: ScreenerMessage[],
+): RedFlagScreening => {
+  const matches = new Map<string, RedFlagMatch>();
+  let maxPainScore: number | null = null;
+
+  messages.forEach((message, index) => {
+    if (message.role !== 'user') return;
+
+    const previous = messages[index - 1];
+    const question =
+      previous?.role === 'assistant' ? previous.content : undefined;
+
+    KEYWORD_RULES.forEach((rule) => {
+      if (matches.has(rule.id)) return;
+
+      const found = findMatch(message.content, rule.pattern);
+      if (found) {
+        matches.set(rule.id, {
+          id: rule.id,
+          label: rule.label,
+          reason: `You mentioned "${found.toLowerCase()}"`,
+        });
+      }
+    });
+
+    // "Yes" to "Have you had any recent injuries?" counts as trauma
+    if (
+      !matches.has('trauma') &&
+      question &&
+      INJURY_QUESTION.test(question) &&
+      AFFIRMATIVE_ANSWER.test(message.content)
+    ) {
+      matches.set('trauma', {
+        id: 'trauma',
+        label: 'Recent trauma or injury',
+        reason: 'You reported a recent injury, fall or accident',
+      });
+    }
+
+    const score = findPainScore(message.content, question);
+    if (score !== null && (maxPainScore === null || score > maxPainScore)) {
+      maxPainScore = score;
+    }
+  });
+
+  if (maxPainScore !== null && maxPainScore >= SEVERE_PAIN_THRESHOLD) {
+    matches.set('severe_pain', {
+      id: 'severe_pain',
+      label: `Severe pain (${maxPainScore}/10)`,
+      reason: `You rated your pain ${maxPainScore} out of 10`,
+    });
+  }
+
+  const matchList = Array.from(matches.values());
+  return {
+    redFlags: matchList.map((match) => match.label),
+    matches: matchList,
+  };
+};
+
+/**
+ * Merge the screener's result with the AI's flags, dropping duplicates so a
+ * flag either source raised appears once
+ */
+export const combineRedFlags = (
+  screening: RedFlagScreening,
+  aiFlags: string[],
+): RedFlagScreening => {
+  const seen = new Set(
+    screening.matches.map((match) => match.label.trim().toLowerCase()),
+  );
+  const matches = [...screening.matches];
+
+  aiFlags.forEach((flag) => {
+    const key = flag.trim().toLowerCase();
+    if (!key || seen.has(key)) return;
+
+    seen.add(key);
+    matches.push({
+      id: `ai_${key.replace(/[^a-z0-9]+/g, '_')}`,
+      label: flag.trim(),
+      reason: 'Flagged by the AI assessment',
+    });
+  });
+
+  return {
+    redFlags: matches.map((match) => match.label),
+    matches,
+  };
+};
@@ -0,0 +1,69 @@
+import type { RehabPlan } from '@/services/planService';
+import { getSessionGapDays, parseFrequency } from '@/utils/recoveryAnalytics';
+
+/**
+ * Reminder Schedule
+ * When to remind the user about their next sessions, from the plan's
+ * frequency and the user's preferred time of day. Pure (time is passed in)
+ * so the notification service only has to hand the dates to the OS.
+ */
+
+export interface ReminderTime {
+  hour: number;
+  minute: number;
+}
+
+export const DEFAULT_REMINDER_TIME: ReminderTime = { hour: 18, minute: 0 };
+
+// iOS keeps at most 64 pending notifications per app, shared across plans
+export const MAX_REMINDERS_PER_PLAN = 8;
+
+const atTime = (day: Date, time: ReminderTime): Date => {
+  const date = new Date(day);
+  date.setHours(time.hour, time.minute, 0, 0);
+  return date;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Upcoming reminder times for a plan: the day the next session is due, then
+ * every session gap after that, always at the preferred time and never in
+ * the past or after the plan ends. Empty when the frequency can't be parsed.
+ */
+export const getReminderTimes = (
+  plan: Pick<RehabPlan, 'frequency' | 'startDate' | 'targetDurationWeeks'>,
+  lastSessionAt: Date | null,
+  preferredTime: ReminderTime,
+  now: Date,
+  limit: number = MAX_REMINDERS_PER_PLAN,
+): Date[] => {
+  const target = parseFrequency(plan.frequency);
+  if (!target || target.maxPerWeek < 1 || !plan.startDate) return [];
+
+  const gapDays = getSessionGapDays(target);
+  const planEnd = addDays(plan.startDate, plan.targetDurationWeeks * 7);
+
+  let next = lastSessionAt
+    ? atTime(addDays(lastSessionAt, gapDays), preferredTime)
+    : atTime(plan.startDate, preferredTime);
+
+  // An overdue session is reminded about at the next preferred time
+  if (next.getTime() <= now.getTime()) {
+    next = atTime(now, preferredTime);
+    if (next.getTime() <= now.getTime()) {
+      next = addDays(next, 1);
+    }
+  }
+
+  const times: Date[] = [];
+  while (times.length < limit && next.getTime() < planEnd.getTime()) {
+    times.push(next);
+    next = addDays(next, gapDays);
+  }
+  return times;
+};
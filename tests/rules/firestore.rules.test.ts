@@ -0,0 +1,337 @@
+/**
+ * Firestore security rules. Needs the Firestore emulator: run with
+ * `npm run test:rules`, which wraps jest in `firebase emulators:exec`.
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+
+const ALICE = 'alice';
+const BOB = 'bob';
+
+let testEnv: RulesTestEnvironment;
+
+const dbAs = (uid: string) => testEnv.authenticatedContext(uid).firestore();
+
+// Write fixtures as the Admin SDK would, bypassing the rules
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled((context) =>
+    context.firestore().doc(path).set(data),
+  );
+
+const freeProfile = (uid: string) => ({
+  uid,
+  email: `${uid}@example.com`,
+  displayName: uid,
+  subscriptionStatus: 'free',
+  subscriptionTier: null,
+});
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'recoverly-rules-test',
+    firestore: {
+      rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8'),
+    },
+  });
+});
+
+afterEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe('ownership', () => {
+  beforeEach(async () => {
+    await seed(`users/${BOB}`, freeProfile(BOB));
+    await seed('conditions/bob-knee', { userId: BOB, name: 'Knee' });
+    await seed('rehabPlans/bob-plan', {
+      userId: BOB,
+      conditionId: 'bob-knee',
+    });
+  });
+
+  it("lets a user read their own profile but not someone else's", async () => {
+    await seed(`users/${ALICE}`, freeProfile(ALICE));
+
+    await assertSucceeds(dbAs(ALICE).doc(`users/${ALICE}`).get());
+    await assertFails(dbAs(ALICE).doc(`users/${BOB}`).get());
+  });
+
+  it("blocks writing someone else's profile", async () => {
+    await assertFails(
+      dbAs(ALICE).doc(`users/${BOB}`).update({ displayName: 'Alice' }),
+    );
+    await assertFails(dbAs(ALICE).doc('users/carol').set(freeProfile('carol')));
+  });
+
+  it.each(['conditions/bob-knee', 'rehabPlans/bob-plan'])(
+    "blocks reading, editing and deleting someone else's %s",
+    async (path) => {
+      const db = dbAs(ALICE);
+
+      await assertFails(db.doc(path).get());
+      await assertFails(db.doc(path).update({ status: 'paused' }));
+      await assertFails(db.doc(path).delete());
+    },
+  );
+
+  it('blocks creating documents owned by someone else', async () => {
+    await assertFails(
+      dbAs(ALICE).doc('conditions/fake').set({ userId: BOB, name: 'Hip' }),
+    );
+    await assertFails(
+      dbAs(ALICE).doc('sessionLogs/fake').set({ userId: BOB, planId: 'p' }),
+    );
+  });
+
+  it("blocks taking over someone else's condition", async () => {
+    await seed('conditions/alice-hip', { userId: ALICE, name: 'Hip' });
+
+    await assertFails(
+      dbAs(ALICE).doc('conditions/alice-hip').update({ userId: BOB }),
+    );
+  });
+
+  it('blocks signed-out access', async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+
+    await assertFails(db.doc(`users/${BOB}`).get());
+    await assertFails(db.doc('conditions/bob-knee').get());
+  });
+});
+
+describe('server-only subscription fields', () => {
+  it('lets a new profile start on the free plan', async () => {
+    await assertSucceeds(
+      dbAs(ALICE).doc(`users/${ALICE}`).set(freeProfile(ALICE)),
+    );
+  });
+
+  it('blocks creating a profile that is already subscribed', async () => {
+    const db = dbAs(ALICE);
+
+    await assertFails(
+      db
+        .doc(`users/${ALICE}`)
+        .set({ ...freeProfile(ALICE), subscriptionStatus: 'active' }),
+    );
+    await assertFails(
+      db
+        .doc(`users/${ALICE}`)
+        .set({ ...freeProfile(ALICE), stripeCustomerId: 'cus_123' }),
+    );
+  });
+
+  it.each([
+    ['subscriptionStatus', 'active'],
+    ['subscriptionTier', 'premium'],
+    ['stripeCustomerId', 'cus_123'],
+    ['subscriptionEndDate', new Date('2030-01-01')],
+    // A future value would make the webhook ignore every real event
+    ['stripeEventCreated', 4102444800],
+  ])('blocks the client from setting %s', async (field, value) => {
+    await seed(`users/${ALICE}`, freeProfile(ALICE));
+
+    await assertFails(
+      dbAs(ALICE)
+        .doc(`users/${ALICE}`)
+        .update({ [field]: value }),
+    );
+  });
+
+  it('still lets the client edit their own profile fields', async () => {
+    await seed(`users/${ALICE}`, freeProfile(ALICE));
+
+    await assertSucceeds(
+      dbAs(ALICE).doc(`users/${ALICE}`).update({ displayName: 'Alice' }),
+    );
+  });
+});
+
+describe.each(['sessionLogs', 'painCheckIns'])('%s', (collection) => {
+  const path = `${collection}/alice-entry`;
+
+  it('lets a user append their own entries', async () => {
+    await assertSucceeds(
+      dbAs(ALICE).doc(path).set({ userId: ALICE, planId: 'plan-1' }),
+    );
+  });
+
+  it('blocks editing or deleting an entry', async () => {
+    await seed(path, { userId: ALICE, planId: 'plan-1' });
+    const db = dbAs(ALICE);
+
+    await assertFails(db.doc(path).update({ planId: 'plan-2' }));
+    await assertFails(db.doc(path).set({ userId: ALICE, planId: 'plan-2' }));
+    await assertFails(db.doc(path).delete());
+  });
+
+  it('lets a signed-in user check whether a queued entry already landed', async () => {
+    await assertSucceeds(dbAs(ALICE).doc(`${collection}/not-yet`).get());
+  });
+
+  it("blocks reading someone else's entry", async () => {
+    await seed(path, { userId: ALICE, planId: 'plan-1' });
+
+    await assertFails(dbAs(BOB).doc(path).get());
+  });
+
+  it('blocks the missing-doc check when signed out', async () => {
+    await assertFails(
+      testEnv.unauthenticatedContext().firestore().doc(`${collection}/x`).get(),
+    );
+  });
+});
+
+describe('red flag gate on conditions and plans', () => {
+  const flaggedCondition = (acknowledgmentId?: string) => ({
+    userId: ALICE,
+    redFlags: ['Numbness'],
+    ...(acknowledgmentId ? { redFlagAcknowledgmentId: acknowledgmentId } : {}),
+  });
+
+  // What intake does: the condition and its plan in one batch
+  const saveIntake = (condition: Record<string, unknown>) => {
+    const db = dbAs(ALICE);
+    const batch = db.batch();
+    batch.set(db.doc('conditions/alice-hip'), condition);
+    batch.set(db.doc('rehabPlans/alice-plan'), {
+      userId: ALICE,
+      conditionId: 'alice-hip',
+    });
+    return batch.commit();
+  };
+
+  it('saves an unflagged intake', async () => {
+    await assertSucceeds(saveIntake({ userId: ALICE, redFlags: [] }));
+  });
+
+  it('saves a flagged intake that points at a recorded acknowledgment', async () => {
+    await seed(`users/${ALICE}/redFlagAcknowledgments/ack-1`, {
+      uid: ALICE,
+      redFlags: ['Numbness'],
+    });
+
+    await assertSucceeds(saveIntake(flaggedCondition('ack-1')));
+  });
+
+  it('blocks an acknowledgment that covers other flags', async () => {
+    await seed(`users/${ALICE}/redFlagAcknowledgments/ack-1`, {
+      uid: ALICE,
+      redFlags: ['Fever'],
+    });
+
+    await assertFails(saveIntake(flaggedCondition('ack-1')));
+  });
+
+  it('blocks a flagged intake without an acknowledgment', async () => {
+    await assertFails(saveIntake(flaggedCondition()));
+    await assertFails(saveIntake(flaggedCondition('never-recorded')));
+  });
+
+  it("blocks pointing at someone else's acknowledgment", async () => {
+    await seed(`users/${BOB}/redFlagAcknowledgments/ack-1`, {
+      uid: BOB,
+      redFlags: ['Numbness'],
+    });
+
+    await assertFails(saveIntake(flaggedCondition('ack-1')));
+  });
+
+  it('blocks a new plan for a flagged condition with no acknowledgment', async () => {
+    await seed('conditions/alice-hip', flaggedCondition());
+
+    await assertFails(
+      dbAs(ALICE)
+        .doc('rehabPlans/alice-plan')
+        .set({ userId: ALICE, conditionId: 'alice-hip' }),
+    );
+  });
+
+  it('lets the status change but keeps the flags and acknowledgment fixed', async () => {
+    await seed(`users/${ALICE}/redFlagAcknowledgments/ack-1`, {
+      uid: ALICE,
+      redFlags: ['Numbness'],
+    });
+    await seed(`users/${ALICE}/redFlagAcknowledgments/ack-2`, {
+      uid: ALICE,
+      redFlags: ['Fever'],
+    });
+    await seed('conditions/alice-hip', flaggedCondition('ack-1'));
+    const condition = dbAs(ALICE).doc('conditions/alice-hip');
+
+    await assertSucceeds(condition.update({ status: 'paused' }));
+    await assertFails(condition.update({ redFlags: [] }));
+    await assertFails(condition.update({ redFlagAcknowledgmentId: 'ack-2' }));
+    await assertFails(
+      condition.update({
+        redFlagAcknowledgmentId: firebase.firestore.FieldValue.delete(),
+      }),
+    );
+  });
+
+  it('lets an unflagged condition change status', async () => {
+    await seed('conditions/alice-hip', { userId: ALICE, redFlags: [] });
+
+    await assertSucceeds(
+      dbAs(ALICE).doc('conditions/alice-hip').update({ status: 'resolved' }),
+    );
+  });
+
+  it("blocks a plan for someone else's condition", async () => {
+    await seed('conditions/bob-knee', { userId: BOB, redFlags: [] });
+
+    await assertFails(
+      dbAs(ALICE)
+        .doc('rehabPlans/alice-plan')
+        .set({ userId: ALICE, conditionId: 'bob-knee' }),
+    );
+  });
+});
+
+describe('red flag acknowledgments', () => {
+  const path = `users/${ALICE}/redFlagAcknowledgments/ack-1`;
+
+  const acknowledgment = () => ({
+    uid: ALICE,
+    redFlags: ['Numbness'],
+    disclaimerVersion: 1,
+    acknowledgedAt: firebase.firestore.FieldValue.serverTimestamp(),
+  });
+
+  it('lets a user record an acknowledgment stamped with the server time', async () => {
+    await assertSucceeds(dbAs(ALICE).doc(path).set(acknowledgment()));
+  });
+
+  it('blocks a client-chosen timestamp', async () => {
+    await assertFails(
+      dbAs(ALICE)
+        .doc(path)
+        .set({ ...acknowledgment(), acknowledgedAt: new Date('2020-01-01') }),
+    );
+  });
+
+  it('is write-once', async () => {
+    const db = dbAs(ALICE);
+    await assertSucceeds(db.doc(path).set(acknowledgment()));
+
+    await assertFails(db.doc(path).update({ redFlags: [] }));
+    await assertFails(db.doc(path).set(acknowledgment()));
+    await assertFails(db.doc(path).delete());
+  });
+
+  it('blocks recording an acknowledgment for someone else', async () => {
+    await assertFails(dbAs(BOB).doc(path).set(acknowledgment()));
+  });
+});